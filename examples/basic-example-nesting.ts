@@ -29,5 +29,5 @@ console.log(loginRequest?.profile);
 
 const profileGroup = toFormGroup<ProfileRequest>(ProfileRequest);
 
-console.log(profileGroup == formGroup.get('profile'));
+console.log(profileGroup == formGroup.get('profile')); // a fresh copy is nested, so this is never equal
 
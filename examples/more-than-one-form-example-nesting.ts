@@ -33,9 +33,9 @@ console.log(loginRequest?.profile);
 
 const profileGroup = toFormGroup<ProfileRequest>(ProfileRequest, "editProfileForm");
 
-console.log(profileGroup == formGroup.get('profile'));
+console.log(profileGroup == formGroup.get('profile')); // a fresh copy is nested, so this is never equal
 
 const defaultProfileGroup = toFormGroup<ProfileRequest>(ProfileRequest);
-console.log(defaultProfileGroup == formGroup.get('profile')); // should not be equal
+console.log(defaultProfileGroup == formGroup.get('profile')); // not equal either
 
 
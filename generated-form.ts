@@ -0,0 +1,442 @@
+import {
+    AbstractControl,
+    ControlValueAccessor,
+    FormArray,
+    FormControl,
+    FormGroup,
+    NG_VALUE_ACCESSOR,
+    ReactiveFormsModule
+} from "@angular/forms";
+import {
+    Component,
+    Directive,
+    ElementRef,
+    inject,
+    InjectionToken,
+    Injector,
+    Input,
+    OnChanges,
+    OnDestroy,
+    Renderer2,
+    Type,
+    ValueProvider
+} from "@angular/core";
+import {NgComponentOutlet, NgFor, NgIf, NgSwitch, NgSwitchCase, NgSwitchDefault, NgTemplateOutlet} from "@angular/common";
+import {Subscription} from "rxjs";
+import {
+    collectErrors,
+    FormControlMetadata,
+    FormFactory,
+    FormGroupMetadata,
+    getFormMetadata,
+    getFormSource,
+    toFormGroup
+} from "./index.js";
+
+/**
+ * Makes the ids of the generated form fields unique.
+ */
+let GENERATED_FIELD_COUNT = 0;
+
+/**
+ * A field rendered by the generated form (@see GeneratedFormComponent),
+ * as seen by the input components (@see GENERATED_FIELD). Those only get
+ * the fields of single controls, so <strong>control</strong> is a
+ * <strong>FormControl</strong> which can be bound with
+ * <strong>[formControl]</strong>. The fields of nested form groups
+ * and form arrays hold their <strong>FormGroup</strong> or
+ * <strong>FormArray</strong> instead.
+ */
+export interface GeneratedField<C extends AbstractControl = FormControl> {
+    /** Unique id, e.g. for the <strong>for</strong> attribute of the label */
+    id: string;
+    /** Path of the control, e.g. <strong>supplier.name</strong> (@see collectErrors) */
+    path: string;
+    label: string;
+    kind: string;
+    hint: string | undefined;
+    placeholder: string | undefined;
+    options: { value: any, label: string }[];
+    control: C;
+    /** Fields of a nested form group or elements of a form array, rendered as a fieldset */
+    fields: GeneratedField<AbstractControl>[] | null;
+
+    /**
+     * The messages of the validation errors of the control
+     * itself, once it is touched or dirty (@see ErrorMessages).
+     */
+    messages(): string[];
+}
+
+/**
+ * A field as the generated form keeps it: along with what the
+ * input components see, the component rendering it and the
+ * injector providing it to that component (@see GENERATED_FIELD).
+ */
+export interface RenderedField extends GeneratedField<AbstractControl> {
+    fields: RenderedField[] | null;
+    component: Type<any>;
+    injector: Injector;
+}
+
+/**
+ * The field an input component of the generated
+ * form renders (@see provideGeneratedFormInputs).
+ */
+export const GENERATED_FIELD = new InjectionToken<GeneratedField>('GENERATED_FIELD');
+
+/**
+ * The input components of the generated form, per
+ * input kind (@see provideGeneratedFormInputs).
+ */
+export const GENERATED_FORM_INPUTS = new InjectionToken<{ [kind: string]: Type<any> }>('GENERATED_FORM_INPUTS');
+
+/**
+ * Binds a native <strong>date</strong> input, which works with
+ * <strong>yyyy-MM-dd</strong> strings, to a control holding a
+ * <strong>Date</strong>. Controls holding strings (or nothing)
+ * keep getting the strings, as with the default value accessor.
+ */
+@Directive({
+    selector: 'input[type=date][ngxGeneratedDate]',
+    standalone: true,
+    host: {'(input)': 'onInput($any($event.target).value)', '(blur)': 'onTouched()'},
+    providers: [{provide: NG_VALUE_ACCESSOR, useExisting: GeneratedDateInputDirective, multi: true}]
+})
+export class GeneratedDateInputDirective implements ControlValueAccessor {
+    private readonly element = inject(ElementRef);
+    private readonly renderer = inject(Renderer2);
+    private holdsDate = false;
+    private onChange: (value: any) => void = () => {};
+
+    onTouched: () => void = () => {};
+
+    writeValue(value: any) {
+        // a date field stays one when it is cleared, e.g. on reset()
+        this.holdsDate = value instanceof Date || this.holdsDate && value == null;
+        this.renderer.setProperty(this.element.nativeElement, 'value', value instanceof Date ? toDateString(value) : value ?? '');
+    }
+
+    registerOnChange(onChange: (value: any) => void) {
+        this.onChange = onChange;
+    }
+
+    registerOnTouched(onTouched: () => void) {
+        this.onTouched = onTouched;
+    }
+
+    setDisabledState(disabled: boolean) {
+        this.renderer.setProperty(this.element.nativeElement, 'disabled', disabled);
+    }
+
+    onInput(value: string) {
+        this.onChange(this.holdsDate ? toDate(value) : value);
+    }
+}
+
+/**
+ * The input component the generated form uses for the kinds
+ * which have no component of their own (@see provideGeneratedFormInputs).
+ * It renders a native input, textarea, select or checkbox with its
+ * label, hint and validation messages.
+ */
+@Component({
+    selector: 'ngx-generated-input',
+    standalone: true,
+    imports: [GeneratedDateInputDirective, NgFor, NgIf, NgSwitch, NgSwitchCase, NgSwitchDefault, ReactiveFormsModule],
+    template: `
+        <div class="ngx-generated-field" [class.ngx-generated-field-invalid]="field.messages().length > 0">
+            <label *ngIf="field.kind !== 'checkbox'" [for]="field.id">{{ field.label }}</label>
+            <ng-container [ngSwitch]="field.kind">
+                <input *ngSwitchCase="'checkbox'" type="checkbox" [id]="field.id" [formControl]="field.control">
+                <input *ngSwitchCase="'number'" type="number" [id]="field.id"
+                       [placeholder]="field.placeholder || ''" [formControl]="field.control">
+                <input *ngSwitchCase="'date'" type="date" ngxGeneratedDate [id]="field.id" [formControl]="field.control">
+                <textarea *ngSwitchCase="'textarea'" [id]="field.id"
+                          [placeholder]="field.placeholder || ''" [formControl]="field.control"></textarea>
+                <select *ngSwitchCase="'select'" [id]="field.id" [formControl]="field.control">
+                    <option *ngFor="let option of field.options" [ngValue]="option.value">{{ option.label }}</option>
+                </select>
+                <input *ngSwitchDefault [type]="field.kind" [id]="field.id"
+                       [placeholder]="field.placeholder || ''" [formControl]="field.control">
+            </ng-container>
+            <label *ngIf="field.kind === 'checkbox'" [for]="field.id">{{ field.label }}</label>
+            <small *ngIf="field.hint" class="ngx-generated-hint">{{ field.hint }}</small>
+            <span *ngFor="let message of field.messages()" class="ngx-generated-error">{{ message }}</span>
+        </div>
+    `
+})
+export class GeneratedInputComponent {
+    readonly field = inject(GENERATED_FIELD);
+}
+
+/**
+ * Renders a generated form group, without a hand-written template:
+ * an input for each control, a fieldset for each nested form group
+ * and form array, and the validation messages of each control.
+ *
+ * The form group is built from <strong>type</strong> and <strong>formId</strong>
+ * (populated with <strong>value</strong>, if supplied), unless an already built
+ * one is supplied as <strong>form</strong>. Either way it is available as
+ * <strong>formGroup</strong>. Fields are presented according to @see UiField,
+ * and the input components can be replaced per input kind
+ * (@see provideGeneratedFormInputs).
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     <ngx-generated-form #invoiceForm="generatedForm" [type]="InvoiceRequest" formId="editForm"></ngx-generated-form>
+ *     <button [disabled]="invoiceForm.formGroup?.invalid" (click)="save(invoiceForm.formGroup)">Save</button>
+ * </code></pre>
+ */
+@Component({
+    selector: 'ngx-generated-form',
+    exportAs: 'generatedForm',
+    standalone: true,
+    imports: [NgComponentOutlet, NgFor, NgIf, NgTemplateOutlet],
+    template: `
+        <ng-template #group let-fields>
+            <ng-container *ngFor="let field of fields; trackBy: trackByControl">
+                <fieldset *ngIf="field.fields; else input" class="ngx-generated-fieldset">
+                    <legend>{{ field.label }}</legend>
+                    <ng-container *ngTemplateOutlet="group; context: {$implicit: field.fields}"></ng-container>
+                    <span *ngFor="let message of field.messages()" class="ngx-generated-error">{{ message }}</span>
+                </fieldset>
+                <ng-template #input>
+                    <ng-container *ngComponentOutlet="field.component; injector: field.injector"></ng-container>
+                </ng-template>
+            </ng-container>
+        </ng-template>
+        <div class="ngx-generated-form">
+            <ng-container *ngTemplateOutlet="group; context: {$implicit: fields}"></ng-container>
+        </div>
+    `
+})
+export class GeneratedFormComponent implements OnChanges, OnDestroy {
+
+    @Input() type: any = null;
+    @Input() formId: string | null = null;
+    @Input() value: any = null;
+    @Input() form: FormGroup | null = null;
+
+    formGroup: FormGroup | null = null;
+    fields: RenderedField[] = [];
+
+    private readonly injector = inject(Injector);
+    private readonly formFactory = inject(FormFactory, {optional: true});
+    private readonly inputs = inject(GENERATED_FORM_INPUTS, {optional: true}) || {};
+    private readonly rendered = new WeakMap<AbstractControl, RenderedField>();
+    private readonly metadata = new Map<any, { readonly [formId: string]: Readonly<FormGroupMetadata> }>();
+    private messages = new Map<string, string[]>();
+    private subscription = Subscription.EMPTY;
+
+    ngOnChanges() {
+        this.subscription.unsubscribe();
+
+        this.formGroup = this.form || this.buildFormGroup();
+        this.fields = this.formGroup ? this.toFields(this.formGroup, '') : [];
+        this.messages = this.formGroup ? toMessages(this.formGroup) : new Map();
+
+        if (this.formGroup) {
+            const formGroup = this.formGroup;
+            // form arrays can grow and shrink
+            this.subscription = formGroup.valueChanges.subscribe(() => this.fields = this.toFields(formGroup, ''));
+            // the errors are collected once per change, rather than per field on each change detection
+            this.subscription.add(formGroup.statusChanges.subscribe(() => this.messages = toMessages(formGroup)));
+        }
+    }
+
+    ngOnDestroy() {
+        this.subscription.unsubscribe();
+    }
+
+    trackByControl(index: number, field: RenderedField): AbstractControl {
+        return field.control;
+    }
+
+    private buildFormGroup(): FormGroup | null {
+        if (!this.type) {
+            return null;
+        }
+
+        return this.formFactory
+            ? this.formFactory.toFormGroup(this.type, this.formId, this.value)
+            : toFormGroup(this.type, this.formId, this.value);
+    }
+
+    private toFields(formGroup: FormGroup, path: string): RenderedField[] {
+        const source = getFormSource(formGroup);
+        const controls = source && this.getMetadata(source.type)[source.formId]?.controls;
+        const order = (propName: string) => controls?.[propName]?.ui.order ?? Number.MAX_SAFE_INTEGER;
+
+        return Object.keys(formGroup.controls)
+            .sort((a, b) => order(a) - order(b))
+            .map(propName => this.toField(
+                formGroup.controls[propName],
+                path ? `${path}.${propName}` : propName,
+                controls?.[propName]?.ui.label ?? toLabel(propName),
+                controls?.[propName]
+            ));
+    }
+
+    private toField(control: AbstractControl, path: string, label: string, metadata: FormControlMetadata | undefined): RenderedField {
+        let field = this.rendered.get(control);
+
+        if (!field) {
+            const ui = metadata?.ui || {};
+            const kind = ui.kind
+                || (ui.options ? 'select' : undefined)
+                || (metadata?.constraints.email ? 'email' : undefined)
+                || toInputKind(control.value);
+
+            const created: RenderedField = {
+                id: `ngx-generated-${++GENERATED_FIELD_COUNT}`,
+                path,
+                label,
+                kind,
+                hint: ui.hint,
+                placeholder: ui.placeholder,
+                options: ui.options || [],
+                control,
+                fields: null,
+                messages: () => control.touched || control.dirty
+                    ? this.messages.get(created.path) || []
+                    : [],
+                component: this.inputs[kind] || GeneratedInputComponent,
+                injector: Injector.create({
+                    providers: [{provide: GENERATED_FIELD, useFactory: () => created}],
+                    parent: this.injector
+                })
+            };
+
+            field = created;
+            this.rendered.set(control, field);
+        }
+
+        // form array elements move when the ones before them are removed
+        field.path = path;
+        field.label = label;
+
+        if (control instanceof FormGroup) {
+            field.fields = this.toFields(control, path);
+        } else if (control instanceof FormArray) {
+            field.fields = control.controls.map((item, index) =>
+                this.toField(item, `${path}[${index}]`, `${label} ${index + 1}`, item instanceof FormGroup ? undefined : metadata));
+        }
+
+        return field;
+    }
+
+    private getMetadata(type: any): { readonly [formId: string]: Readonly<FormGroupMetadata> } {
+        if (!this.metadata.has(type)) {
+            this.metadata.set(type, getFormMetadata(type));
+        }
+
+        return this.metadata.get(type)!;
+    }
+}
+
+/**
+ * Replaces the input components of the generated form
+ * (@see GeneratedFormComponent) per input kind, e.g. with
+ * Material or PrimeNG based ones. The kinds without a component
+ * of their own keep using @see GeneratedInputComponent.
+ *
+ * An input component gets the field it renders injected
+ * as @see GENERATED_FIELD.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     @Component({
+ *         selector: 'app-material-select',
+ *         standalone: true,
+ *         imports: [MatFormFieldModule, MatSelectModule, NgFor, ReactiveFormsModule],
+ *         template: `
+ *             <mat-form-field>
+ *                 <mat-label>{{ field.label }}</mat-label>
+ *                 <mat-select [formControl]="field.control">
+ *                     <mat-option *ngFor="let option of field.options" [value]="option.value">{{ option.label }}</mat-option>
+ *                 </mat-select>
+ *                 <mat-error *ngFor="let message of field.messages()">{{ message }}</mat-error>
+ *             </mat-form-field>
+ *         `
+ *     })
+ *     export class MaterialSelectComponent {
+ *         readonly field = inject(GENERATED_FIELD);
+ *     }
+ *
+ *     bootstrapApplication(AppComponent, {
+ *         providers: [provideGeneratedFormInputs({select: MaterialSelectComponent})]
+ *     });
+ * </code></pre>
+ *
+ * @param inputs The input components per input kind
+ */
+export function provideGeneratedFormInputs(inputs: { [kind: string]: Type<any> }): ValueProvider {
+    return {provide: GENERATED_FORM_INPUTS, useValue: inputs};
+}
+
+/**
+ * The default label of a field, e.g. <strong>Supplier name</strong>
+ * for <strong>supplierName</strong>.
+ */
+function toLabel(propName: string): string {
+    const words = propName.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+
+    return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * The messages of the validation errors of a form group, per path.
+ */
+function toMessages(formGroup: FormGroup): Map<string, string[]> {
+    const messages = new Map<string, string[]>();
+    collectErrors(formGroup).forEach(error => messages.set(error.path, [...(messages.get(error.path) || []), error.message]));
+
+    return messages;
+}
+
+/**
+ * The <strong>yyyy-MM-dd</strong> string of a date, in local time.
+ */
+function toDateString(date: Date): string {
+    if (Number.isNaN(date.getTime())) {
+        return '';
+    }
+
+    const pad = (part: number, length: number) => String(part).padStart(length, '0');
+
+    return `${pad(date.getFullYear(), 4)}-${pad(date.getMonth() + 1, 2)}-${pad(date.getDate(), 2)}`;
+}
+
+/**
+ * The local midnight of a <strong>yyyy-MM-dd</strong> string,
+ * or null when the input is cleared.
+ */
+function toDate(value: string): Date | null {
+    if (!value) {
+        return null;
+    }
+
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    // years before 100 would be taken as 19xx
+    date.setFullYear(year);
+
+    return date;
+}
+
+/**
+ * The input kind of a control without one, after its value.
+ */
+function toInputKind(value: any): string {
+    if (typeof value === 'boolean') {
+        return 'checkbox';
+    }
+    if (typeof value === 'number') {
+        return 'number';
+    }
+
+    return value instanceof Date ? 'date' : 'text';
+}
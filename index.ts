@@ -1,586 +1,4336 @@
-import {AsyncValidatorFn, FormControl, FormControlOptions, FormGroup, ValidatorFn} from "@angular/forms";
+import {
+    AbstractControl,
+    AsyncValidator,
+    AsyncValidatorFn,
+    FormArray,
+    FormControl,
+    FormControlOptions,
+    FormGroup,
+    ValidationErrors,
+    Validator,
+    ValidatorFn,
+    Validators
+} from "@angular/forms";
+import {
+    DestroyRef,
+    inject,
+    Injectable,
+    InjectionToken,
+    Injector,
+    ProviderToken,
+    runInInjectionContext,
+    signal,
+    Signal,
+    WritableSignal
+} from "@angular/core";
+import {BehaviorSubject, debounceTime, merge, Observable, Subscription} from "rxjs";
 
 type FormIdType = string | string[] | undefined;
-const METADATA: any = {}
+type ValidatorsOrOptionsType = ValidatorFn | ValidatorFn[] | FormControlOptions | null;
 
+/**
+ * Blueprint of a single control inside a form group.
+ * Nothing here is a live Angular control, it only
+ * describes how one should be built.
+ */
+export interface FormControlMetadata {
+    validators: ValidatorFn[];
+    asyncValidators: AsyncValidatorFn[];
+    options: FormControlMetadataOptions;
+    constraints: FormControlConstraints;
+    crossFieldRules: CrossFieldRule[];
+    enabledIf: ((value: any) => boolean) | null;
+    errorMessages: { [errorKey: string]: ErrorMessage };
+    excludeFromDraft: boolean;
+    ui: FormControlUi;
+    nested: { sourceType: any, sourceFormId: string | undefined, maxDepth?: number } | null;
+    array: FormArrayOptions | null;
+    modelTransform: ModelTransformFn | null;
+    valueTransforms: ValueTransformFn[];
+}
 
-export class ModelFormGroup<T> extends FormGroup {
-    override readonly value: T | null = null;
+/**
+ * The options of a FormControl other than its validators.
+ */
+export interface FormControlMetadataOptions {
+    nonNullable?: boolean;
+    updateOn?: 'change' | 'blur' | 'submit';
 }
 
-export const DEFAULT_GROUP = "!A!N!S!R!!!THIS_IS_THE_DEFAULT_GROUP_ID!!A!N!S!R!";
+/**
+ * How a control is presented by the generated form
+ * (@see UiField, @see GeneratedFormComponent).
+ */
+export interface FormControlUi {
+    label?: string;
+    hint?: string;
+    placeholder?: string;
+    /**
+     * The input kind, e.g. <strong>text</strong>, <strong>number</strong>, <strong>email</strong>,
+     * <strong>password</strong>, <strong>textarea</strong>, <strong>select</strong>,
+     * <strong>checkbox</strong>, <strong>date</strong> or a custom one
+     * (@see provideGeneratedFormInputs). Inferred from the
+     * options, constraints and default value if omitted.
+     */
+    kind?: string;
+    options?: { value: any, label: string }[];
+    /**
+     * Fields with an order come first, in ascending order,
+     * the others follow in the order they are declared.
+     */
+    order?: number;
+}
 
 /**
- * Decorator used on a class to denote that
- * this class will be a target type if a form group value.
- *
- * If your class will be a target of multiple forms,
- * which have different options, validators, and
- * maybe subset of fields, you can use this decorator
- * multiple times, denoting a unique identifier called
- * <strong>formId</strong>. Then each validator and form control which
- * is participating in the particular form group should
- * share the same <strong>formId</strong>
- *
- * Usage:
- * <pre><code>
- *
- *     @FormGroupTarget()
- *     @FormGroupTarget("editForm")
- *     class InvoiceRequest {
- *
- *     }
- *
- * </code></pre>
- *
- * @param formId {FormIdType}
- * @constructor
+ * Built-in validation rules declared with the validation
+ * decorators (@see Required, @see MaxLength, ...), together
+ * with their parameters, so UI code can read them.
  */
-export function FormGroupTarget(formId: FormIdType = undefined) {
-    return (target: any) => {
-        initializeMetadata(target, formId);
-    }
+export interface FormControlConstraints {
+    required?: boolean;
+    requiredTrue?: boolean;
+    email?: boolean;
+    min?: number;
+    max?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string | RegExp;
 }
 
 /**
- * Decorator used on a class to denote that
- * this class, which is already a target of
- * a form group (@see @FormGroupTarget)
- * will have synchronous validators.
- *
- * In order to add different validators to
- * different form groups of the same type,
- * an additional parameter <strong>formId</strong>
- * should be supplied
+ * A validation rule of a control which depends on the
+ * value of a sibling control (@see MatchesField,
+ * @see RequiredIf, @see DateAfter).
+ */
+export interface CrossFieldRule {
+    rule: 'matchesField' | 'requiredIf' | 'dateAfter';
+    field: string;
+    condition?: (value: any) => boolean;
+}
+
+/**
+ * Decorator which can only be applied on a DTO having
+ * a field named <strong>K</strong>.
+ */
+export type SiblingFieldDecorator<K extends string> =
+    (target: { [P in K]: any } | Function, propName: any, descriptor?: any) => void;
+
+/**
+ * The message of a validation error, either fixed or
+ * built from the error value (@see ErrorMessages).
+ */
+export type ErrorMessage = string | ((errorValue: any) => string);
+
+/**
+ * A single validation error of a form group or
+ * of any of its controls (@see collectErrors).
+ */
+export interface FormError {
+    path: string;
+    errorKey: string;
+    errorValue: any;
+    message: string;
+}
+
+/**
+ * Options of @see applyServerErrors.
+ */
+export interface ServerErrorsOptions {
+    /**
+     * The error key to set, <strong>server</strong> by default.
+     */
+    errorKey?: string;
+    /**
+     * Sets the errors of the paths which match no control
+     * on the form group itself, instead of only returning them.
+     */
+    unmatchedToGroup?: boolean;
+    /**
+     * Sets the <strong>detail</strong> of RFC 7807 problem
+     * details on the form group itself.
+     */
+    detailToGroup?: boolean;
+}
+
+/**
+ * Where a validator which needs Angular DI comes from: a factory
+ * function receiving the injector, or a DI token of the validator
+ * function or of a class implementing <strong>Validator</strong> or
+ * <strong>AsyncValidator</strong> (@see injectValidator).
+ */
+export type InjectedValidatorSource<V> = ((injector: Injector) => V) | ProviderToken<V | Validator | AsyncValidator>;
+
+/**
+ * Blueprint of a form group, collected by the decorators
+ * and turned into a brand-new ModelFormGroup on each
+ * toFormGroup() call.
+ */
+export interface FormGroupMetadata {
+    validators: ValidatorFn[];
+    asyncValidators: AsyncValidatorFn[];
+    controls: { [propName: string]: FormControlMetadata };
+    excluded: string[];
+    draft: { key: DraftKey, options: PersistDraftOptions } | null;
+}
+
+/**
+ * The key of a form draft in its storage (@see PersistDraft),
+ * fixed or built from the DTO the form is filled with, e.g.
+ * <strong>(dto) => 'invoice-' + (dto?.id ?? 'new')</strong>.
+ */
+export type DraftKey = string | ((value: any) => string);
+
+/**
+ * Where form drafts are kept (@see PersistDraft). The browser
+ * <strong>localStorage</strong> and <strong>sessionStorage</strong>
+ * already are draft storages (@see DraftStorages).
+ */
+export interface DraftStorage {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
+/**
+ * Options of @see PersistDraft and @see persistForm.
+ */
+export interface PersistDraftOptions {
+    /**
+     * The storage of the draft, <strong>localStorage</strong> by default.
+     */
+    storage?: DraftStorage;
+    /**
+     * How long the value has to stay unchanged before
+     * it is saved, in milliseconds, 300 by default.
+     */
+    debounceTime?: number;
+}
+
+/**
+ * Converts the value of a form control to the
+ * value of the corresponding DTO field.
+ */
+export type ModelTransformFn = (value: any) => any;
+
+/**
+ * Normalizes a value given to a form control, @see ValueTransform.
+ */
+export type ValueTransformFn = (value: any) => any;
+
+/**
+ * A JSON Schema document or subschema (@see toJsonSchema).
+ */
+export type JsonSchema = { [keyword: string]: any };
+
+/**
+ * The part of a class-validator <strong>ValidationMetadata</strong>
+ * which is read by @see importClassValidatorMetadata.
+ */
+export interface ClassValidatorMetadata {
+    type: string;
+    name?: string;
+    target: Function | string;
+    propertyName: string;
+    constraints: any[];
+    groups?: string[];
+    always?: boolean;
+    each?: boolean;
+}
+
+/**
+ * The part of the class-validator <strong>MetadataStorage</strong>
+ * (as returned by its <strong>getMetadataStorage()</strong>) which
+ * is read by @see importClassValidatorMetadata.
+ */
+export interface ClassValidatorMetadataStorage {
+    getTargetValidationMetadatas(target: Function, targetSchema: string, always: boolean,
+                                 strictGroups: boolean, groups?: string[]): ClassValidatorMetadata[];
+}
+
+/**
+ * Options of @see importClassValidatorMetadata.
+ */
+export interface ClassValidatorImportOptions {
+    /**
+     * Resolves the type of a field marked with <strong>@ValidateNested</strong>,
+     * e.g. from the class-transformer <strong>@Type</strong>. By default the
+     * <strong>design:type</strong> reflect metadata is used, which is not
+     * available for array elements.
+     */
+    resolveType?: (type: any, propName: string) => any;
+}
+
+/**
+ * Serializable description of a form, for forms which have
+ * no class to decorate (@see defineForm).
+ */
+export interface FormDefinition {
+    /**
+     * The name of the generated type, used in error messages.
+     */
+    name: string;
+    /**
+     * The form groups to define, the default form group if omitted.
+     */
+    formIds?: string[];
+    /**
+     * Named form group validators (@see registerValidator).
+     */
+    validators?: string[];
+    fields: { [propName: string]: FormFieldDefinition };
+}
+
+/**
+ * Serializable description of a single field (@see defineForm).
+ */
+export interface FormFieldDefinition {
+    /**
+     * The default value of the field.
+     */
+    value?: any;
+    /**
+     * The form groups the field is part of, all form groups of the form if omitted.
+     */
+    formIds?: string[];
+    /**
+     * Named validators such as <strong>"required"</strong> or <strong>"minLength:5"</strong>,
+     * either for all form groups of the field, or per formId.
+     */
+    validators?: string[] | { [formId: string]: string[] };
+    /**
+     * Makes the field a nested form group (@see NestedFormGroup).
+     */
+    nested?: FormDefinition;
+    nestedFormId?: string;
+    /**
+     * Makes the field a form array (@see FormArrayTarget).
+     */
+    array?: FormArrayDefinition;
+}
+
+/**
+ * Serializable description of a form array (@see FormArrayOptions).
+ */
+export interface FormArrayDefinition {
+    items?: FormDefinition;
+    itemsFormId?: string;
+    itemValidators?: string[];
+    validators?: string[];
+    minLength?: number;
+    maxLength?: number;
+}
+
+/**
+ * Creates the validator of a named validator, from the
+ * argument following the colon, e.g. <strong>"5"</strong>
+ * in <strong>"minLength:5"</strong> (@see registerValidator).
+ */
+export type ValidatorFactory = (argument?: string) => ValidatorFn;
+
+/**
+ * Form groups metadata per decorated type. It is keyed by the
+ * constructor itself, so two classes with the same name (or the
+ * same source text) in different modules never collide.
+ */
+const METADATA = new WeakMap<any, { [formId: string]: FormGroupMetadata }>();
+
+/**
+ * Explicit names of constructor parameters (@see ParamName),
+ * per decorated type and parameter index.
+ */
+const PARAMETER_NAMES = new WeakMap<any, { [parameterIndex: number]: string }>();
+
+/**
+ * Remembers which type and formId each generated
+ * form group was built from.
+ */
+const FORM_SOURCES = new WeakMap<AbstractControl, { type: any, formId: string }>();
+
+/**
+ * The raw value each generated form group was built (and
+ * populated) with, to diff and reset against.
+ */
+const INITIAL_VALUES = new WeakMap<AbstractControl, any>();
+
+/**
+ * Messages of the validation errors which have no
+ * message on the control itself (@see registerErrorMessages).
+ */
+const ERROR_MESSAGES: { [errorKey: string]: ErrorMessage } = {
+    required: 'This field is required',
+    email: 'This field must be a valid email address',
+    min: error => `This field must be at least ${error.min}`,
+    max: error => `This field must be at most ${error.max}`,
+    minlength: error => `This field must have at least ${error.requiredLength} characters or elements`,
+    maxlength: error => `This field must have at most ${error.requiredLength} characters or elements`,
+    pattern: 'This field has an invalid format',
+    matchesField: error => `This field must match ${error.field}`,
+    requiredIf: 'This field is required',
+    dateAfter: error => `This field must be after ${error.field}`,
+    server: (messages: string[]) => messages.join(' ')
+};
+
+/**
+ * Named validators usable in form definitions,
+ * besides the built-in ones (@see registerValidator).
+ */
+const VALIDATOR_REGISTRY = new Map<string, ValidatorFactory>();
+
+/**
+ * Named validators which are stored as constraints,
+ * so they stay introspectable (@see getFormMetadata).
+ */
+const BUILT_IN_VALIDATORS = ['required', 'requiredTrue', 'email', 'min', 'max', 'minLength', 'maxLength', 'pattern'];
+
+/**
+ * The standard members of RFC 7807 problem details,
+ * which describe the response rather than fields.
+ */
+const PROBLEM_DETAILS_MEMBERS = ['type', 'title', 'status', 'detail', 'instance'];
+
+/**
+ * Where the drafts of persisted form groups are kept (@see persistForm).
+ */
+const DRAFTS = new WeakMap<AbstractControl, { key: string, storage: DraftStorage }>();
+
+/**
+ * The controls declared with @see FormControlTarget, which replace
+ * the inherited control of the same field instead of merging into it.
+ */
+const REDECLARED_CONTROLS = new WeakSet<FormControlMetadata>();
+
+/**
+ * The code of the error Angular throws when <strong>inject()</strong>
+ * is called outside of an injection context (NG0203).
+ */
+const MISSING_INJECTION_CONTEXT = -203;
+
+/**
+ * Where each validator declared with @see injectValidator
+ * comes from, keyed by its placeholder validator.
+ */
+const INJECTED_VALIDATORS = new WeakMap<Function, InjectedValidatorSource<any>>();
+
+/**
+ * Types whose class-validator metadata is already
+ * imported (@see importClassValidatorMetadata).
+ */
+const IMPORTED_TYPES = new WeakSet<any>();
+
+
+declare const SINGLE_CONTROL: unique symbol;
+
+/**
+ * Marks an object or array field which is bound to a single
+ * control with @see FormControlTarget, e.g. a multi-select or a
+ * value object, so it is typed as a <strong>FormControl</strong>
+ * too (@see ModelFormControl). It changes nothing at runtime.
  *
  * Example:
  * <pre><code>
  *
- *     @FormGroupTarget()
- *     @FormGroupValidators(Validators.email)
- *
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators(Validators.requiredTrue, "editForm")
- *     class InvoiceRequest {
- *
- *     }
+ *     @FormControlTarget()
+ *     public roles: SingleControl<string[]> = [];
  *
  * </code></pre>
+ */
+export type SingleControl<V> = V & { readonly [SINGLE_CONTROL]?: true };
+
+/**
+ * The control a DTO field is mapped to: nested DTOs become
+ * a <strong>ModelFormGroup</strong>, arrays a <strong>ModelFormArray</strong>
+ * and everything else (primitives, dates) a <strong>FormControl</strong>.
  *
- * If two or more forms share the same validators,
- * an array of <strong>formId</strong> could be supplied,
- * so they will reflect in all of them.
- * If you do not name your default form group, a formId will
- * be assigned from the library. In order to access it later
- * (e.g. in the <strong>formId</strong> array) use the
- * <strong>DEFAULT_GROUP</strong> constant.
- *
- * Example:
- * <pre><code>
- *
- *     @FormGroupTarget()
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators([Validators.email, Validators.requiredTrue], [DEFAULT_GROUP, "editForm"])
- *     class InvoiceRequest {
- *
- *     }
- *
- * </code></pre>
+ * It follows the type of the field, not its decorators, so objects
+ * and arrays bound to a single control have to be marked with
+ * @see SingleControl to be typed as a <strong>FormControl</strong>.
+ */
+export type ModelFormControl<V> =
+    [NonNullable<V>] extends [Date]
+        ? FormControl<V>
+        : typeof SINGLE_CONTROL extends keyof NonNullable<V>
+            ? FormControl<V>
+            : [NonNullable<V>] extends [(infer E)[]]
+                ? ModelFormArray<E>
+                : [NonNullable<V>] extends [object]
+                    ? ModelFormGroup<NonNullable<V>>
+                    : FormControl<V>;
+
+/**
+ * The keys of a DTO which are not methods.
+ */
+export type ModelFieldKeys<T> = { [K in keyof T]-?: T[K] extends Function ? never : K }[keyof T];
+
+/**
+ * The controls of a <strong>ModelFormGroup</strong>, one per
+ * DTO field. Methods of the DTO are left out.
+ */
+export type ModelFormControls<T> = {
+    [K in ModelFieldKeys<T>]: ModelFormControl<T[K]>
+};
+
+/**
+ * The signals of a single control (@see toSignals).
+ * <strong>value</strong> includes disabled controls, like
+ * <strong>getRawValue()</strong>, and <strong>set()</strong> writes back
+ * to the control, resizing form arrays as needed (@see fillForm).
+ */
+export interface ControlSignals<V> {
+    readonly control: AbstractControl;
+    readonly value: Signal<V>;
+    readonly valid: Signal<boolean>;
+    readonly pending: Signal<boolean>;
+    readonly dirty: Signal<boolean>;
+    readonly errors: Signal<ValidationErrors | null>;
+
+    set(value: V): void;
+
+    update(updateFn: (value: V) => V): void;
+}
+
+/**
+ * The signals of a generated control, mirroring @see ModelFormControl:
+ * nested form groups have a signal tree per field in
+ * <strong>fields</strong>, form arrays one per element in <strong>items</strong>.
+ */
+export type ModelSignals<V> =
+    [NonNullable<V>] extends [Date]
+        ? ControlSignals<V>
+        : typeof SINGLE_CONTROL extends keyof NonNullable<V>
+            ? ControlSignals<V>
+            : [NonNullable<V>] extends [(infer E)[]]
+                ? ControlSignals<V> & { readonly items: Signal<ModelSignals<E>[]> }
+                : [NonNullable<V>] extends [object]
+                    ? ControlSignals<V> & { readonly fields: { [K in ModelFieldKeys<NonNullable<V>>]: ModelSignals<NonNullable<V>[K]> } }
+                    : ControlSignals<V>;
+
+/**
+ * The signals of a generated form group, @see toSignalForm.
+ */
+export type SignalForm<T> = ModelSignals<T> & {
+    readonly formGroup: ModelFormGroup<T>;
+
+    /**
+     * Stops following the form group, done automatically
+     * when the destroy context of the signals is destroyed.
+     */
+    destroy(): void;
+};
+
+/**
+ * A FormGroup generated from a decorated type <strong>T</strong>.
  *
- * @param validators {ValidatorFn | ValidatorFn[]}
- * @param formId {FormIdType}
- * @constructor
+ * Its controls are typed after the fields of <strong>T</strong>
+ * (@see ModelFormControls), so <strong>controls</strong>, <strong>get()</strong>,
+ * <strong>value</strong>, <strong>getRawValue()</strong>, <strong>setValue()</strong>
+ * and <strong>patchValue()</strong> are all strongly typed. Object and
+ * array fields are typed as nested groups and arrays, unless they are
+ * marked with @see SingleControl.
+ */
+export class ModelFormGroup<T> extends FormGroup<ModelFormControls<T>> {
+
+    /**
+     * Builds a real instance of the type this form group
+     * was generated from (@see toModel).
+     */
+    toInstance(): T {
+        return toModel<T>(this);
+    }
+
+    /**
+     * The fields whose value differs from the initial
+     * one (@see getChangedValues).
+     */
+    getChangedValues(): Partial<T> {
+        return getChangedValues<T>(this);
+    }
+
+    /**
+     * The fields the user has changed (@see getDirtyPatch).
+     */
+    getDirtyPatch(): Partial<T> {
+        return getDirtyPatch<T>(this);
+    }
+
+    /**
+     * Restores the values the form group was built with, resizing
+     * form arrays as needed, and marks it pristine and untouched.
+     */
+    resetToInitial() {
+        const initialValue = getInitialValue(this);
+        fillForm(this, initialValue);
+        this.reset(initialValue);
+    }
+}
+
+/**
+ * Common transforms for the <strong>@ModelTransform</strong> decorator.
+ */
+export class ModelTransforms {
+
+    /**
+     * Converts strings and timestamps to <strong>Date</strong>.
+     * Empty values are converted to <strong>null</strong>.
+     */
+    static toDate(value: any): Date | null {
+        return value === null || value === undefined || value === '' ? null : new Date(value);
+    }
+
+    /**
+     * Converts numeric strings to <strong>number</strong>.
+     * Empty values are converted to <strong>null</strong>.
+     */
+    static toNumber(value: any): number | null {
+        return value === null || value === undefined || value === '' ? null : Number(value);
+    }
+}
+
+/**
+ * Common transforms for the <strong>@ValueTransform</strong> decorator.
+ * Values they do not apply to are returned as they are.
+ */
+export class ValueTransforms {
+
+    /**
+     * Removes the leading and trailing whitespace of strings.
+     */
+    static trim(value: any): any {
+        return typeof value === 'string' ? value.trim() : value;
+    }
+
+    /**
+     * Converts numeric strings to <strong>number</strong> and
+     * empty strings to <strong>null</strong>.
+     */
+    static toNumber(value: any): any {
+        if (typeof value !== 'string') {
+            return value;
+        }
+
+        return value.trim() === ''
+            ? null
+            : isNaN(Number(value)) ? value : Number(value);
+    }
+
+    /**
+     * Converts empty strings to <strong>null</strong>.
+     */
+    static emptyAsNull(value: any): any {
+        return value === '' ? null : value;
+    }
+
+    /**
+     * Converts strings to lower case.
+     */
+    static lowercase(value: any): any {
+        return typeof value === 'string' ? value.toLowerCase() : value;
+    }
+}
+
+/**
+ * A FormControl which runs the value transforms of its field
+ * (@see ValueTransform) on every value it is given. The input
+ * keeps showing what the user typed, while the control holds
+ * the transformed value.
+ */
+class TransformedFormControl extends FormControl {
+
+    constructor(private readonly transforms: ValueTransformFn[],
+                value: any,
+                options: FormControlOptions) {
+        super(applyValueTransforms(transforms, value), options);
+    }
+
+    override setValue(value: any, options: Parameters<FormControl['setValue']>[1] = {}) {
+        super.setValue(applyValueTransforms(this.transforms, value), options);
+    }
+}
+
+/**
+ * Storages for form drafts (@see PersistDraftOptions).
+ */
+export class DraftStorages {
+
+    private static readonly memoryStorage = new Map<string, string>();
+
+    /**
+     * The browser <strong>localStorage</strong>, drafts survive closing the browser.
+     */
+    static local(): DraftStorage {
+        return globalThis.localStorage;
+    }
+
+    /**
+     * The browser <strong>sessionStorage</strong>, drafts survive reloading the page.
+     */
+    static session(): DraftStorage {
+        return globalThis.sessionStorage;
+    }
+
+    /**
+     * An in-memory storage shared by the whole application,
+     * drafts survive navigating away from the form.
+     */
+    static memory(): DraftStorage {
+        const storage = DraftStorages.memoryStorage;
+
+        return {
+            getItem: key => storage.get(key) ?? null,
+            setItem: (key, value) => storage.set(key, value),
+            removeItem: key => storage.delete(key)
+        };
+    }
+}
+
+/**
+ * A FormArray built from a <strong>@FormArrayTarget</strong> decorated
+ * property. Besides the usual FormArray API, it knows how to build
+ * new elements from the same metadata the decorators collected.
+ */
+export class ModelFormArray<T> extends FormArray<ModelFormControl<T>> {
+
+    constructor(private readonly itemFactory: (value?: T) => ModelFormControl<T>,
+                controls: ModelFormControl<T>[],
+                validators: ValidatorFn[],
+                asyncValidators: AsyncValidatorFn[]) {
+        super(controls, validators, asyncValidators);
+    }
+
+    /**
+     * Builds a fresh element control (or form group for
+     * nested types) without adding it to the array.
+     *
+     * @param value Optional value to seed the element with
+     */
+    createItem(value?: T): ModelFormControl<T> {
+        return this.itemFactory(value);
+    }
+
+    /**
+     * Builds a fresh element and pushes it at the end of the array.
+     *
+     * @param value Optional value to seed the element with
+     */
+    addItem(value?: T): ModelFormControl<T> {
+        const item = this.createItem(value);
+        this.push(item);
+
+        return item;
+    }
+}
+
+/**
+ * Undo/redo history of a form group, recording snapshots
+ * of its value as it changes (@see withHistory).
+ */
+export class FormHistory {
+
+    private past: any[] = [];
+    private future: any[] = [];
+    private present: any;
+    private lastChange = 0;
+    private restoring = false;
+    private readonly initialValue: any;
+    private readonly subscription: Subscription;
+    private readonly canUndoSubject = new BehaviorSubject(false);
+    private readonly canRedoSubject = new BehaviorSubject(false);
+
+    /**
+     * Whether there is a snapshot to go back to.
+     */
+    readonly canUndo$: Observable<boolean> = this.canUndoSubject.asObservable();
+
+    /**
+     * Whether there is an undone snapshot to go forward to.
+     */
+    readonly canRedo$: Observable<boolean> = this.canRedoSubject.asObservable();
+
+    constructor(private readonly formGroup: FormGroup,
+                private readonly options: FormHistoryOptions = {}) {
+        this.present = formGroup.getRawValue();
+        this.initialValue = INITIAL_VALUES.has(formGroup) ? INITIAL_VALUES.get(formGroup) : this.present;
+        this.subscription = formGroup.valueChanges.subscribe(() => this.record());
+    }
+
+    /**
+     * Restores the previous snapshot, if any.
+     */
+    undo() {
+        if (this.past.length > 0) {
+            this.future.unshift(this.present);
+            this.restore(this.past.pop());
+        }
+    }
+
+    /**
+     * Restores the last undone snapshot, if any.
+     */
+    redo() {
+        if (this.future.length > 0) {
+            this.past.push(this.present);
+            this.restore(this.future.shift());
+        }
+    }
+
+    /**
+     * Forgets all snapshots, keeping the current value.
+     */
+    clear() {
+        this.past = [];
+        this.future = [];
+        this.present = this.formGroup.getRawValue();
+        this.lastChange = 0;
+        this.notify();
+    }
+
+    /**
+     * Stops recording the changes of the form group.
+     */
+    destroy() {
+        this.subscription.unsubscribe();
+        this.canUndoSubject.complete();
+        this.canRedoSubject.complete();
+    }
+
+    private record() {
+        const value = this.formGroup.getRawValue();
+        if (this.restoring || isSameValue(value, this.present)) {
+            return;
+        }
+
+        const now = Date.now();
+        if (now - this.lastChange >= (this.options.groupTime ?? 500)) {
+            this.past.push(this.present);
+            this.past.splice(0, this.past.length - (this.options.limit ?? 50));
+        }
+
+        this.present = value;
+        this.future = [];
+        this.lastChange = now;
+        this.notify();
+    }
+
+    private restore(snapshot: any) {
+        this.restoring = true;
+        try {
+            fillForm(this.formGroup, snapshot);
+        } finally {
+            this.restoring = false;
+        }
+
+        this.present = snapshot;
+        this.lastChange = 0;
+        syncPristineState(this.formGroup, this.initialValue);
+        this.notify();
+    }
+
+    private notify() {
+        this.canUndoSubject.next(this.past.length > 0);
+        this.canRedoSubject.next(this.future.length > 0);
+    }
+}
+
+/**
+ * Options of @see withHistory.
+ */
+export interface FormHistoryOptions {
+    /**
+     * The maximum number of snapshots to go back to, 50 by default.
+     */
+    limit?: number;
+    /**
+     * Changes following each other within this many
+     * milliseconds are recorded as one snapshot, 500 by default.
+     */
+    groupTime?: number;
+}
+
+/**
+ * Builds generated form groups like @see toFormGroup, resolving the
+ * validators which need Angular DI (@see injectValidator) through
+ * the injector of the service.
+ *
+ * <strong>toFormGroup</strong> uses it as well, when it is called in an
+ * injection context (e.g. in a field initializer of a component).
+ * Elsewhere, e.g. in <strong>ngOnInit</strong>, the service has to be injected.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     export class RegisterComponent implements OnInit {
+ *
+ *         private readonly formFactory = inject(FormFactory);
+ *
+ *         ngOnInit(): void {
+ *             this.formGroup = this.formFactory.toFormGroup<RegisterRequest>(RegisterRequest);
+ *         }
+ *     }
+ * </code></pre>
+ */
+@Injectable({providedIn: 'root'})
+export class FormFactory {
+
+    private readonly injector = inject(Injector);
+    private readonly overrides = new Map<any, ValidatorFn | AsyncValidatorFn>();
+
+    /**
+     * Same as @see toFormGroup.
+     */
+    toFormGroup<T>(type: any, formId: string | null = null, value: Partial<T> | null = null): ModelFormGroup<T> {
+        return createFormGroup<T>(type, formId, value, this);
+    }
+
+    /**
+     * Same as @see toFormGroups.
+     */
+    toFormGroups<T>(t: any, formIds: string[] = []): ModelFormGroup<T>[] {
+        return createFormGroups<T>(t, formIds, this);
+    }
+
+    /**
+     * Replaces a validator declared with @see injectValidator
+     * in the forms built from now on, e.g. with a stub in tests.
+     *
+     * @param source The validator, or the factory or DI token it is declared with
+     * @param validator The validator to use instead
+     */
+    override(source: any, validator: ValidatorFn | AsyncValidatorFn): this {
+        this.overrides.set(INJECTED_VALIDATORS.get(source) ?? source, validator);
+
+        return this;
+    }
+
+    /**
+     * Resolves a validator declared with @see injectValidator
+     * through the injector of the service. Other validators
+     * are returned as they are.
+     *
+     * @param validator Any validator
+     */
+    resolveValidator<V extends ValidatorFn | AsyncValidatorFn>(validator: V): V {
+        const source = INJECTED_VALIDATORS.get(validator);
+        if (!source) {
+            return validator;
+        }
+
+        if (this.overrides.has(source)) {
+            return this.overrides.get(source) as V;
+        }
+
+        if (source instanceof InjectionToken || source.prototype?.validate) {
+            const resolved = this.injector.get(source as ProviderToken<any>);
+
+            return typeof resolved === 'function' ? resolved : resolved.validate.bind(resolved);
+        }
+
+        return runInInjectionContext(this.injector, () => (source as (injector: Injector) => V)(this.injector));
+    }
+}
+
+/**
+ * Options of the <strong>@FormArrayTarget</strong> decorator.
+ */
+export interface FormArrayOptions {
+    /** Decorated type of each element, or a thunk returning it. Omit it for an array of primitive controls */
+    sourceType?: any;
+    /** Form id of the element type, if it defines more than one form group */
+    sourceFormId?: string;
+    /** Validators or options of each element, when elements are primitive controls */
+    itemValidatorsOrOptions?: ValidatorsOrOptionsType;
+    /** Synchronous validators of the array itself */
+    validators?: ValidatorFn | ValidatorFn[];
+    /** Asynchronous validators of the array itself */
+    asyncValidators?: AsyncValidatorFn | AsyncValidatorFn[];
+    /** Minimum number of elements */
+    minLength?: number;
+    /** Maximum number of elements */
+    maxLength?: number;
+}
+
+export const DEFAULT_GROUP = "!A!N!S!R!!!THIS_IS_THE_DEFAULT_GROUP_ID!!A!N!S!R!";
+
+/**
+ * Decorator used on a class to denote that
+ * this class will be a target type if a form group value.
+ *
+ * If your class will be a target of multiple forms,
+ * which have different options, validators, and
+ * maybe subset of fields, you can use this decorator
+ * multiple times, denoting a unique identifier called
+ * <strong>formId</strong>. Then each validator and form control which
+ * is participating in the particular form group should
+ * share the same <strong>formId</strong>
+ *
+ * Usage:
+ * <pre><code>
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupTarget("editForm")
+ *     class InvoiceRequest {
+ *
+ *     }
+ *
+ * </code></pre>
+ *
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function FormGroupTarget(formId: FormIdType = undefined) {
+    return (target: any) => {
+        initializeMetadata(target, formId);
+    }
+}
+
+/**
+ * Decorator used on a class to denote that
+ * this class, which is already a target of
+ * a form group (@see @FormGroupTarget)
+ * will have synchronous validators.
+ *
+ * In order to add different validators to
+ * different form groups of the same type,
+ * an additional parameter <strong>formId</strong>
+ * should be supplied
+ *
+ * Example:
+ * <pre><code>
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupValidators(Validators.email)
+ *
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators(Validators.requiredTrue, "editForm")
+ *     class InvoiceRequest {
+ *
+ *     }
+ *
+ * </code></pre>
+ *
+ * If two or more forms share the same validators,
+ * an array of <strong>formId</strong> could be supplied,
+ * so they will reflect in all of them.
+ * If you do not name your default form group, a formId will
+ * be assigned from the library. In order to access it later
+ * (e.g. in the <strong>formId</strong> array) use the
+ * <strong>DEFAULT_GROUP</strong> constant.
+ *
+ * Example:
+ * <pre><code>
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators([Validators.email, Validators.requiredTrue], [DEFAULT_GROUP, "editForm"])
+ *     class InvoiceRequest {
+ *
+ *     }
+ *
+ * </code></pre>
+ *
+ * @param validators {ValidatorFn | ValidatorFn[]}
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function FormGroupValidators(validators: ValidatorFn | ValidatorFn[], formId: FormIdType = undefined) {
+    return (target: any) => {
+        initializeMetadata(target, formId);
+        getFormGroups(target, formId).forEach(formGroup => formGroup.validators.push(...toArray(validators)))
+    }
+}
+
+/**
+ * Decorator used on a class to denote that
+ * this class, which is already a target of
+ * a form group (@see @FormGroupTarget)
+ * will have asynchronous validators.
+ *
+ * In order to add different validators to
+ * different form groups of the same type,
+ * an additional parameter <strong>formId</strong>
+ * should be supplied
+ *
+ * Example:
+ * <pre><code>
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupValidators(Validators.email)
+ *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
+ *
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators(Validators.requiredTrue, "editForm")
+ *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
+ *     class InvoiceRequest {
+ *
+ *     }
+ *
+ * </code></pre>
+ *
+ * If two or more forms share the same validators,
+ * an array of <strong>formId</strong> could be supplied,
+ * so they will reflect in all of them.
+ * If you do not name your default form group, a formId will
+ * be assigned from the library. In order to access it later
+ * (e.g. in the <strong>formId</strong> array) use the
+ * <strong>DEFAULT_GROUP</strong> constant.
+ *
+ * Example:
+ * <pre><code>
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators([Validators.email, Validators.requiredTrue], [DEFAULT_GROUP, "editForm"])
+ *     @FormGroupAsyncValidators([ctrl => of({ value: ctrl.value}), ctrl => of({ empty: !ctrl.value})], [DEFAULT_GROUP, "editForm"])
+ *     class InvoiceRequest {
+ *
+ *     }
+ *
+ * </code></pre>
+ *
+ * @param validators {AsyncValidatorFn | AsyncValidatorFn[]}
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function FormGroupAsyncValidators(validators: AsyncValidatorFn | AsyncValidatorFn[], formId: FormIdType = undefined) {
+    return (target: any) => {
+        initializeMetadata(target, formId);
+        getFormGroups(target, formId).forEach(formGroup => formGroup.asyncValidators.push(...toArray(validators)))
+    }
+}
+
+/**
+ * Decorator used on a class to denote that
+ * this class, which extends another decorated class,
+ * drops some of the inherited form controls.
+ *
+ * Subclasses inherit every form group defined on their
+ * ancestors, including controls and validators. They
+ * can add new controls, add decorators to an inherited
+ * field (which merge into the inherited control), redeclare
+ * it with a different @see FormControlTarget to override it,
+ * or exclude it from a particular <strong>formId</strong>
+ * with this decorator.
+ *
+ * Example:
+ * <pre><code>
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupTarget("editForm")
+ *     class CreateInvoiceRequest {
+ *
+ *       @FormControlTarget(Validators.required, [DEFAULT_GROUP, "editForm"])
+ *       public num: string = '001';
+ *
+ *       @FormControlTarget([], [DEFAULT_GROUP, "editForm"])
+ *       public date: Date = new Date();
+ *     }
+ *
+ *     @FormGroupExclude("num", "editForm")
+ *     class UpdateInvoiceRequest extends CreateInvoiceRequest {
+ *
+ *       @FormControlTarget(Validators.required, [DEFAULT_GROUP, "editForm"])
+ *       public id: number = 0;
+ *     }
+ *
+ * </code></pre>
+ *
+ * @param propNames {string | string[]} The inherited fields to drop
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function FormGroupExclude(propNames: string | string[], formId: FormIdType = undefined) {
+    return (target: any) => {
+        initializeMetadata(target, formId);
+        getFormGroups(target, formId).forEach(formGroup => formGroup.excluded.push(...toArray(propNames)))
+    }
+}
+
+/**
+ * Decorator used on a class to keep a draft of its form group
+ * in a storage while the user fills it in (@see persistForm),
+ * so the contents survive reloading the page.
+ *
+ * The draft is restored on the next @see toFormGroup (or
+ * @see toFormGroups). A fixed key is shared by all the records,
+ * so when a DTO is supplied, e.g. on edit screens, the form is
+ * neither restored nor persisted. A key built from the DTO
+ * (@see DraftKey) keeps a draft per record, it is called with
+ * the supplied DTO, or with null. Sensitive fields are left
+ * out of the draft with @see ExcludeFromDraft. The draft has
+ * to be removed once it is no longer needed, e.g. after a
+ * successful submit (@see clearDraft).
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>formId</strong>,
+ * in which case each form group needs its own key.
+ *
+ * Example:
+ * <pre><code>
+ *
+ *     @PersistDraft("invoice-draft", {storage: DraftStorages.session(), debounceTime: 500})
+ *     class InvoiceRequest {
+ *
+ *       @FormControlTarget(Validators.required)
+ *       public num: string = '001';
+ *     }
+ *
+ *     @PersistDraft((invoice: InvoiceRequest | null) => 'invoice-' + (invoice?.id ?? 'new'))
+ *     class UpdateInvoiceRequest extends InvoiceRequest {
+ *
+ *       @FormControlTarget()
+ *       public id: number | null = null;
+ *     }
+ *
+ * </code></pre>
+ *
+ * @param key {DraftKey}
+ * @param options {PersistDraftOptions}
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function PersistDraft(key: DraftKey, options: PersistDraftOptions = {}, formId: FormIdType = undefined) {
+    return (target: any) => {
+        initializeMetadata(target, formId);
+        getFormGroups(target, formId).forEach(formGroup => formGroup.draft = {key, options});
+    }
+}
+
+/**
+ * Decorator used on a constructor <strong>parameter</strong>
+ * to explicitly name the property it populates.
+ *
+ * The decorators on constructor parameters find out the
+ * property name by reading the constructor signature, without
+ * instantiating the class. This decorator is only needed when
+ * that is not possible, e.g. for destructured parameters.
+ *
+ * It should be the last decorator of the parameter (the
+ * closest to it), so it is applied before the others.
+ *
+ * Example:
+ * <pre><code>
+ *
+ *     class InvoiceRequest {
+ *
+ *       public date: Date;
+ *
+ *       constructor(
+ *           @FormControlTarget(Validators.required)
+ *           @ParamName("date")
+ *           {date}: { date: Date } = {date: new Date()}
+ *       ) {
+ *           this.date = date;
+ *       }
+ *     }
+ *
+ * </code></pre>
+ *
+ * @param propName The name of the property the parameter populates
+ * @constructor
+ */
+export function ParamName(propName: string) {
+    return (target: any, _: any, parameterIndex: number) => {
+        if (!PARAMETER_NAMES.has(target)) {
+            PARAMETER_NAMES.set(target, {});
+        }
+
+        PARAMETER_NAMES.get(target)![parameterIndex] = propName;
+    }
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to denote that
+ * this property is a <strong>FormControl</strong>
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>formId</strong>.
+ *
+ * This decorator also accepts as an argument on or more
+ * Validators or FormControlOptions (optionally).
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     @FormGroupTarget()
+ *     @FormGroupValidators(Validators.email)
+ *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
+ *
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators(Validators.requiredTrue, "editForm")
+ *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
+ *     class InvoiceRequest {
+ *
+ *       @FormControlTarget(Validators.required)
+ *       @FormControlTarget(Validators.minLength(3), "editForm")
+ *       public num: string = '001';
+ *
+ *       constructor(
+ *           @FormControlTarget([], "editForm")
+ *           public date: Date = new Date()
+ *       ) { }
+ *     }
+ *  </code></pre>
+ *
+ *  If a form control shares the same settings on two or more
+ *  form groups, an array of <strong>formId</strong> can be supplied
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     @FormGroupTarget()
+ *     @FormGroupValidators(Validators.email)
+ *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
+ *
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators(Validators.requiredTrue, "editForm")
+ *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
+ *     class InvoiceRequest {
+ *
+ *       @FormControlTarget([Validators.required, Validators.minLength(3)], [DEFAULT_GROUP, "editForm"])
+ *       public num: string = '001';
+ *
+ *       constructor(
+ *           @FormControlTarget([], [DEFAULT_GROUP, "editForm"])
+ *           public date: Date = new Date()
+ *       ) { }
+ *     }
+ *  </code></pre>
+ *
+ * @param validatorsOrOptions {ValidatorFn | ValidatorFn[] | FormControlOptions}
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function FormControlTarget(validatorsOrOptions: ValidatorsOrOptionsType = null, formId: string | string[] | undefined = undefined) {
+    return (target: any, propName: any, descriptor: any = null) => {
+        const type = target.constructor.name == Function.name
+            ? target
+            : target.constructor;
+
+        if (descriptor != undefined) {
+            propName = resolveParameterName(type, descriptor);
+        }
+
+        initializeMetadata(type, formId);
+
+        mergeControl(type, formId, propName, toControlDefinition(validatorsOrOptions));
+        normalizeFormId(formId).forEach(f => REDECLARED_CONTROLS.add(getControl(METADATA.get(type)![f], propName)));
+    }
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to denote that
+ * this form control has asynchronous validators.
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>formId</strong>.
+ *
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     @FormGroupTarget()
+ *     @FormGroupValidators(Validators.email)
+ *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
+ *
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators(Validators.requiredTrue, "editForm")
+ *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
+ *     class InvoiceRequest {
+ *
+ *       @FormControlTarget(Validators.required)
+ *       @FormControlTarget(Validators.minLength(3), "editForm")
+ *       @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
+ *       @FormControlAsyncValidators(ctrl => of({ notOk: ctrl.state != 'VALID'}), "editForm")
+ *       public num: string = '001';
+ *
+ *       constructor(
+ *           @FormControlTarget([], "editForm")
+ *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
+ *           public date: Date = new Date()
+ *       ) { }
+ *     }
+ *  </code></pre>
+ *
+ *  If a form control shares the same async validators on two or more
+ *  form groups, an array of <strong>formId</strong> can be supplied
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     @FormGroupTarget()
+ *     @FormGroupValidators(Validators.email)
+ *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
+ *
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators(Validators.requiredTrue, "editForm")
+ *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
+ *     class InvoiceRequest {
+ *
+ *       @FormControlTarget([Validators.required, Validators.minLength(3)], [DEFAULT_GROUP, "editForm"])
+ *       @FormControlAsyncValidators([ctrl => of({ ok: ctrl.state == 'VALID'}), ctrl => of({ notOk: ctrl.state != 'VALID'})], [DEFAULT_GROUP, "editForm"])
+ *       public num: string = '001';
+ *
+ *       constructor(
+ *           @FormControlTarget([], [DEFAULT_GROUP, "editForm"])
+ *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}), [DEFAULT_GROUP, "editForm"])
+ *           public date: Date = new Date()
+ *       ) { }
+ *     }
+ *  </code></pre>
+ *
+ * @param validators {AsyncValidatorFn | AsyncValidatorFn[]}
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function FormControlAsyncValidators(validators: AsyncValidatorFn | AsyncValidatorFn[], formId: string | string[] | undefined = undefined) {
+    return fieldDecorator({asyncValidators: toArray(validators)}, formId);
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to denote that
+ * this form control is actually a previously defined form group,
+ * in other words - a nested form group.
+ *
+ * This is the equivalent of:
+ *
+ * <pre><code>
+ *     const topLevelFormGroup = new FormGroup({
+ *         fieldOne: new FormControl(...),
+ *         nestedFormGroup: new FormGroup({  // <---- this
+ *             nestedFieldInNestedGroup: new FormControl(...)
+ *         })
+ *     });
+ * </code></pre>
+ *
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>targetFormId</strong>.
+ *
+ * Also, since the nested entity may define more than one form group
+ * as described the nature of the decorators above, the second parameter
+ * <strong>sourceFormId</strong> actually chooses which of them to nest.
+ *
+ *
+ * Example (Basic):
+ *
+ * <pre><code>
+ *
+ *     @FormGroupTarget()
+ *     class SupplierRequest {
+ *
+ *         @FormControlTarget()
+ *         public name: string = '';
+ *
+ *         @FormControlTarget()
+ *         public address: string = '';
+ *     }
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupValidators(Validators.email)
+ *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
+ *
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators(Validators.requiredTrue, "editForm")
+ *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
+ *     class InvoiceRequest {
+ *
+ *       @FormControlTarget(Validators.required)
+ *       @FormControlTarget(Validators.minLength(3), "editForm")
+ *       @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
+ *       @FormControlAsyncValidators(ctrl => of({ notOk: ctrl.state != 'VALID'}), "editForm")
+ *       public num: string = '001';
+ *
+ *       constructor(
+ *           @FormControlTarget([], "editForm")
+ *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
+ *           public date: Date = new Date(),
+ *
+ *           @NestedFormGroup(SupplierRequest)
+ *           public supplier: SupplierRequest = new SupplierRequest()
+ *       ) { }
+ *     }
+ *  </code></pre>
+ *
+ *  If the nested form group (the SupplierRequest) defines more than
+ *  one form group, we can choose which one of them to nest.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupTarget("validatedSupplier")
+ *     class SupplierRequest {
+ *
+ *         @FormControlTarget()
+ *         @FormControlTarget(Validators.required, "validatedSupplier")
+ *         public name: string = '';
+ *
+ *         @FormControlTarget()
+ *         @FormControlTarget(Validators.required, "validatedSupplier")
+ *         public address: string = '';
+ *     }
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupValidators(Validators.email)
+ *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
+ *
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators(Validators.requiredTrue, "editForm")
+ *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
+ *     class InvoiceRequest {
+ *
+ *       @FormControlTarget(Validators.required)
+ *       @FormControlTarget(Validators.minLength(3), "editForm")
+ *       @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
+ *       @FormControlAsyncValidators(ctrl => of({ notOk: ctrl.state != 'VALID'}), "editForm")
+ *       public num: string = '001';
+ *
+ *       constructor(
+ *           @FormControlTarget([], "editForm")
+ *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
+ *           public date: Date = new Date(),
+ *
+ *           @NestedFormGroup(SupplierRequest, "validatedSupplier")
+ *           public supplier: SupplierRequest = new SupplierRequest()
+ *       ) { }
+ *     }
+ *  </code></pre>
+ *
+ *  In the previous example we have nested the <strong>validatedSupplier</strong>
+ *  form group to the default form group of <strong>InvoiceRequest</strong>. We can choose to nest it
+ *  to <strong>editForm</strong> or to all of them
+ *
+ *  Example:
+ *
+ * <pre><code>
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupTarget("validatedSupplier")
+ *     class SupplierRequest {
+ *
+ *         @FormControlTarget()
+ *         @FormControlTarget(Validators.required, "validatedSupplier")
+ *         public name: string = '';
+ *
+ *         @FormControlTarget()
+ *         @FormControlTarget(Validators.required, "validatedSupplier")
+ *         public address: string = '';
+ *     }
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupValidators(Validators.email)
+ *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
+ *
+ *     @FormGroupTarget("editForm")
+ *     @FormGroupValidators(Validators.requiredTrue, "editForm")
+ *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
+ *     class InvoiceRequest {
+ *
+ *       @FormControlTarget(Validators.required)
+ *       @FormControlTarget(Validators.minLength(3), "editForm")
+ *       @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
+ *       @FormControlAsyncValidators(ctrl => of({ notOk: ctrl.state != 'VALID'}), "editForm")
+ *       public num: string = '001';
+ *
+ *       constructor(
+ *           @FormControlTarget([], "editForm")
+ *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
+ *           public date: Date = new Date(),
+ *
+ *           @NestedFormGroup(SupplierRequest, "validatedSupplier", [DEFAULT_GROUP, "editForm"])
+ *           public supplier: SupplierRequest = new SupplierRequest()
+ *       ) { }
+ *     }
+ *  </code></pre>
+ *
+ *  Types declared later in the file, or the type itself, can be
+ *  referenced with an arrow function, resolved when the form group is
+ *  built. As nested form groups are built eagerly, a type nesting itself
+ *  needs a <strong>maxDepth</strong>: deeper than it the field becomes a
+ *  plain FormControl holding its value. Without one building fails,
+ *  since the nesting would never end. Form arrays are built from the
+ *  values, so recursion through them ends on its own.
+ *
+ *  With <strong>emitDecoratorMetadata</strong> on, such fields should be
+ *  annotated as <strong>Type | null</strong>, otherwise TypeScript
+ *  references the class when decorating the field.
+ *
+ *  Example:
+ *
+ * <pre><code>
+ *     class CategoryRequest {
+ *
+ *         @Required()
+ *         public name: string = '';
+ *
+ *         @NestedFormGroup(() => CategoryRequest, undefined, undefined, 3)
+ *         public parent: CategoryRequest | null = null;
+ *
+ *         @FormArrayTarget({sourceType: () => CategoryRequest})
+ *         public children: CategoryRequest[] = [];
+ *     }
+ * </code></pre>
+ *
+ * @param sourceType The source type defining a form group, e.g. <strong>SupplierRequest</strong>, or a thunk returning it
+ * @param sourceFormId Optional form id of the nested type, if it defines more than one form group
+ * @param targetFormId {FormIdType} The target form id(s) which needs the nesting
+ * @param maxDepth How many times the nested type can be nested within itself
+ * @constructor
+ */
+export function NestedFormGroup(sourceType: any,
+                                sourceFormId: string | undefined = undefined,
+                                targetFormId: FormIdType = undefined,
+                                maxDepth: number | undefined = undefined) {
+    return fieldDecorator({nested: {sourceType, sourceFormId, maxDepth}}, targetFormId);
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to denote that
+ * this property is a <strong>FormArray</strong>.
+ *
+ * Elements can either be primitive form controls or
+ * nested form groups of a previously decorated type
+ * (@see NestedFormGroup). The array itself can have
+ * validators and a minimum and/or maximum length.
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>formId</strong>.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     @FormGroupTarget()
+ *     class InvoiceLineRequest {
+ *
+ *         @FormControlTarget(Validators.required)
+ *         public product: string = '';
+ *
+ *         @FormControlTarget(Validators.min(1))
+ *         public quantity: number = 1;
+ *     }
+ *
+ *     @FormGroupTarget()
+ *     @FormGroupTarget("editForm")
+ *     class InvoiceRequest {
+ *
+ *       @FormArrayTarget({itemValidatorsOrOptions: Validators.required, maxLength: 5})
+ *       public tags: string[] = [];
+ *
+ *       @FormArrayTarget({sourceType: InvoiceLineRequest, minLength: 1}, [DEFAULT_GROUP, "editForm"])
+ *       public lines: InvoiceLineRequest[] = [new InvoiceLineRequest()];
+ *     }
+ *  </code></pre>
+ *
+ * The built array is a <strong>ModelFormArray</strong>, so new elements
+ * can be added from the same metadata:
+ *
+ * <pre><code>
+ *     const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+ *     (formGroup.get('lines') as ModelFormArray<InvoiceLineRequest>).addItem();
+ * </code></pre>
+ *
+ * @param options {FormArrayOptions}
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function FormArrayTarget(options: FormArrayOptions = {}, formId: FormIdType = undefined) {
+    return fieldDecorator({array: options}, formId);
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to denote how
+ * the form control value is converted back to the field
+ * value when a real instance is built (@see toModel).
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>formId</strong>.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     class InvoiceRequest {
+ *
+ *       @FormControlTarget(Validators.required)
+ *       @ModelTransform(ModelTransforms.toDate)
+ *       public date: Date = new Date();
+ *
+ *       @FormControlTarget()
+ *       @ModelTransform(value => Number(value) * 100)
+ *       public amountInCents: number = 0;
+ *     }
+ *  </code></pre>
+ *
+ * @param transform {ModelTransformFn}
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function ModelTransform(transform: ModelTransformFn, formId: FormIdType = undefined) {
+    return fieldDecorator({modelTransform: transform}, formId);
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to normalize the values
+ * the form control is given, the ones the user types in included.
+ * The input keeps showing what was typed, while the control (and so
+ * <strong>value</strong> of the form group) holds the transformed value.
+ * On a form array of primitives they apply to each element.
+ *
+ * Transforms declared on the same field run in the order they
+ * are written, so built-in ones (@see Trim, @see ToNumber,
+ * @see EmptyAsNull, @see Lowercase) and custom functions compose.
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>formId</strong>.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     class RegisterRequest {
+ *
+ *       @Trim()
+ *       @ValueTransform(value => value?.replace(/\s+/g, ' '))
+ *       public fullName: string = '';
+ *
+ *       @Trim()
+ *       @EmptyAsNull()
+ *       public nickname: string | null = null;
+ *     }
+ * </code></pre>
+ *
+ * @param transforms {ValueTransformFn}
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function ValueTransform(transforms: ValueTransformFn | ValueTransformFn[], formId: FormIdType = undefined) {
+    return fieldDecorator({valueTransforms: toArray(transforms)}, formId);
+}
+
+/**
+ * Trims string values, @see ValueTransform.
+ *
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function Trim(formId: FormIdType = undefined) {
+    return ValueTransform(ValueTransforms.trim, formId);
+}
+
+/**
+ * Converts numeric strings to numbers and empty
+ * strings to <strong>null</strong>, @see ValueTransform.
+ *
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function ToNumber(formId: FormIdType = undefined) {
+    return ValueTransform(ValueTransforms.toNumber, formId);
+}
+
+/**
+ * Converts empty strings to <strong>null</strong>, @see ValueTransform.
+ *
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function EmptyAsNull(formId: FormIdType = undefined) {
+    return ValueTransform(ValueTransforms.emptyAsNull, formId);
+}
+
+/**
+ * Converts strings to lower case, @see ValueTransform.
+ *
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function Lowercase(formId: FormIdType = undefined) {
+    return ValueTransform(ValueTransforms.lowercase, formId);
+}
+
+/**
+ * Validation decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong>, equivalent to <strong>Validators.required</strong>.
+ *
+ * Like all validation decorators, it stacks with @see FormControlTarget,
+ * can be associated to particular form groups by <strong>formId</strong>,
+ * and is listed in the <strong>constraints</strong> of the control
+ * metadata (@see getFormMetadata).
+ *
+ * Example:
+ * <pre><code>
+ *     class RegisterRequest {
+ *
+ *       @Required()
+ *       @MinLength(3, [DEFAULT_GROUP, "editForm"])
+ *       @MaxLength(20, [DEFAULT_GROUP, "editForm"])
+ *       public username: string = '';
+ *
+ *       @Required()
+ *       @Email()
+ *       public email: string = '';
+ *     }
+ * </code></pre>
+ *
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function Required(formId: FormIdType = undefined) {
+    return fieldDecorator({constraints: {required: true}}, formId);
+}
+
+/**
+ * Validation decorator equivalent to <strong>Validators.requiredTrue</strong>
+ * (@see Required).
+ *
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function RequiredTrue(formId: FormIdType = undefined) {
+    return fieldDecorator({constraints: {requiredTrue: true}}, formId);
+}
+
+/**
+ * Validation decorator equivalent to <strong>Validators.email</strong>
+ * (@see Required).
+ *
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function Email(formId: FormIdType = undefined) {
+    return fieldDecorator({constraints: {email: true}}, formId);
+}
+
+/**
+ * Validation decorator equivalent to <strong>Validators.min(min)</strong>
+ * (@see Required).
+ *
+ * @param min The minimum number
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function Min(min: number, formId: FormIdType = undefined) {
+    return fieldDecorator({constraints: {min}}, formId);
+}
+
+/**
+ * Validation decorator equivalent to <strong>Validators.max(max)</strong>
+ * (@see Required).
+ *
+ * @param max The maximum number
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function Max(max: number, formId: FormIdType = undefined) {
+    return fieldDecorator({constraints: {max}}, formId);
+}
+
+/**
+ * Validation decorator equivalent to <strong>Validators.minLength(minLength)</strong>
+ * (@see Required).
+ *
+ * @param minLength The minimum length
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function MinLength(minLength: number, formId: FormIdType = undefined) {
+    return fieldDecorator({constraints: {minLength}}, formId);
+}
+
+/**
+ * Validation decorator equivalent to <strong>Validators.maxLength(maxLength)</strong>
+ * (@see Required).
+ *
+ * @param maxLength The maximum length
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function MaxLength(maxLength: number, formId: FormIdType = undefined) {
+    return fieldDecorator({constraints: {maxLength}}, formId);
+}
+
+/**
+ * Validation decorator equivalent to <strong>Validators.pattern(pattern)</strong>
+ * (@see Required).
+ *
+ * @param pattern The pattern the value should match
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function Pattern(pattern: string | RegExp, formId: FormIdType = undefined) {
+    return fieldDecorator({constraints: {pattern}}, formId);
+}
+
+/**
+ * Cross-field validation decorator used on a <strong>field/property</strong>
+ * or a constructor <strong>parameter</strong> to denote that its value
+ * should be equal to the value of a sibling <strong>field</strong>.
+ *
+ * The sibling is referenced by name, which is checked against the
+ * fields of the DTO. The <strong>matchesField</strong> error is set on
+ * the decorated control (not on the form group) and it is re-validated
+ * whenever the sibling changes.
+ *
+ * Like all validation decorators, it can be associated to particular
+ * form groups by <strong>formId</strong>.
+ *
+ * Example:
+ * <pre><code>
+ *     class RegisterRequest {
+ *
+ *       @Required()
+ *       public password: string = '';
+ *
+ *       @MatchesField('password')
+ *       public passwordConfirm: string = '';
+ *     }
+ * </code></pre>
+ *
+ * @param field The name of the sibling field
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function MatchesField<K extends string>(field: K, formId: FormIdType = undefined): SiblingFieldDecorator<K> {
+    return fieldDecorator({crossFieldRules: [{rule: 'matchesField', field}]}, formId);
+}
+
+/**
+ * Cross-field validation decorator (@see MatchesField) to denote
+ * that the field is required when the <strong>condition</strong>
+ * holds for the value of a sibling <strong>field</strong>. By default
+ * the condition is the sibling having a truthy value.
+ *
+ * The error key is <strong>requiredIf</strong>.
+ *
+ * Example:
+ * <pre><code>
+ *     class CustomerRequest {
+ *
+ *       @FormControlTarget()
+ *       public isCompany: boolean = false;
+ *
+ *       @RequiredIf('isCompany')
+ *       public vatNumber: string = '';
+ *
+ *       @FormControlTarget()
+ *       public accountType: string = 'personal';
+ *
+ *       @RequiredIf('accountType', type => type === 'business')
+ *       public companyName: string = '';
+ *     }
+ * </code></pre>
+ *
+ * @param field The name of the sibling field
+ * @param condition Predicate over the value of the sibling field
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function RequiredIf<K extends string>(field: K,
+                                             condition: (value: any) => boolean = value => !!value,
+                                             formId: FormIdType = undefined): SiblingFieldDecorator<K> {
+    return fieldDecorator({crossFieldRules: [{rule: 'requiredIf', field, condition}]}, formId);
+}
+
+/**
+ * Cross-field validation decorator (@see MatchesField) to denote
+ * that the date in this field should be after the date in a
+ * sibling <strong>field</strong>. Empty values are not validated.
+ *
+ * The error key is <strong>dateAfter</strong>.
+ *
+ * Example:
+ * <pre><code>
+ *     class InvoiceRequest {
+ *
+ *       @Required()
+ *       public date: Date = new Date();
+ *
+ *       @DateAfter('date')
+ *       public dueDate: Date | null = null;
+ *     }
+ * </code></pre>
+ *
+ * @param field The name of the sibling field
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function DateAfter<K extends string>(field: K, formId: FormIdType = undefined): SiblingFieldDecorator<K> {
+    return fieldDecorator({crossFieldRules: [{rule: 'dateAfter', field}]}, formId);
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to denote that its
+ * control is enabled only when the <strong>condition</strong>
+ * holds for the (raw) value of its form group.
+ *
+ * The condition is checked when the form is built and on every
+ * value change of the form group. The control can be a nested
+ * form group or a form array as well, and nested form groups
+ * can have conditional controls of their own.
+ *
+ * Same as with any disabled control in Angular, disabled controls
+ * are left out of <strong>value</strong>, but are kept in
+ * <strong>getRawValue()</strong>.
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>formId</strong>.
+ *
+ * Example:
+ * <pre><code>
+ *     class CustomerRequest {
+ *
+ *       @FormControlTarget()
+ *       public accountType: 'personal' | 'business' = 'personal';
+ *
+ *       @FormControlTarget(Validators.required)
+ *       @EnabledIf(customer => customer.accountType === 'business')
+ *       public companyName: string = '';
+ *
+ *       @NestedFormGroup(AddressRequest)
+ *       @EnabledIf(customer => customer.accountType === 'business')
+ *       public companyAddress: AddressRequest = new AddressRequest();
+ *     }
+ * </code></pre>
+ *
+ * @param condition Predicate over the raw value of the form group
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function EnabledIf(condition: (value: any) => boolean, formId: FormIdType = undefined) {
+    return fieldDecorator({enabledIf: condition}, formId);
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to set the messages
+ * of its validation errors, per error key (@see collectErrors).
+ * Error keys without a message here fall back to the global
+ * messages (@see registerErrorMessages).
+ *
+ * Messages of a nested form group or a form array field also
+ * apply to the errors of the group or array itself.
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>formId</strong>.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     class SupplierRequest {
+ *
+ *       @Required()
+ *       @MaxLength(50)
+ *       @ErrorMessages({required: 'Name is required', maxlength: e => `Up to ${e.requiredLength} characters`})
+ *       public name: string = '';
+ *     }
+ * </code></pre>
+ *
+ * @param messages The messages per error key
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function ErrorMessages(messages: { [errorKey: string]: ErrorMessage }, formId: FormIdType = undefined) {
+    return fieldDecorator({errorMessages: messages}, formId);
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to describe how the
+ * generated form presents it (@see GeneratedFormComponent):
+ * its label, hint, placeholder, input kind, options and order.
+ *
+ * Like the other field decorators, several of them can be stacked
+ * and they can be associated to particular form groups by <strong>formId</strong>.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     class InvoiceRequest {
+ *
+ *       @Required()
+ *       @UiField({label: 'Invoice number', placeholder: '0000000001', order: 1})
+ *       public num: string = '';
+ *
+ *       @FormControlTarget()
+ *       @UiField({label: 'Currency', kind: 'select', options: [{value: 'EUR', label: 'Euro'}, {value: 'BGN', label: 'Lev'}]})
+ *       public currency: string = 'EUR';
+ *
+ *       @FormControlTarget()
+ *       @UiField({kind: 'textarea', hint: 'Shown on the printed invoice'}, "editForm")
+ *       public notes: string = '';
+ *     }
+ * </code></pre>
+ *
+ * @param ui {FormControlUi}
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function UiField(ui: FormControlUi, formId: FormIdType = undefined) {
+    return fieldDecorator({ui}, formId);
+}
+
+/**
+ * Decorator used on a <strong>field/property</strong> or a
+ * constructor <strong>parameter</strong> to leave it out of
+ * form drafts (@see PersistDraft), e.g. passwords.
+ *
+ * Same as @see FormGroupValidators it can be associated
+ * to a particular form group by supplied <strong>formId</strong>.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     @PersistDraft("register-draft")
+ *     class RegisterRequest {
+ *
+ *       @Required()
+ *       public username: string = '';
+ *
+ *       @Required()
+ *       @ExcludeFromDraft()
+ *       public password: string = '';
+ *     }
+ * </code></pre>
+ *
+ * @param formId {FormIdType}
+ * @constructor
+ */
+export function ExcludeFromDraft(formId: FormIdType = undefined) {
+    return fieldDecorator({excludeFromDraft: true}, formId);
+}
+
+/**
+ * Declares a validator which needs Angular DI, e.g. <strong>HttpClient</strong>,
+ * so it can be used with the decorators, which run long before any
+ * injector exists. It is resolved when the form is built by @see FormFactory
+ * (or by @see toFormGroup in an injection context), from a factory
+ * function, which can use <strong>inject()</strong> as well, or from a
+ * DI token of the validator function or of a class implementing
+ * <strong>Validator</strong>.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     const noBlockedWords = injectValidator(() => {
+ *         const blocked = inject(BLOCKED_WORDS);
+ *         return ctrl => blocked.includes(ctrl.value) ? {blocked: true} : null;
+ *     });
+ *
+ *     class CommentRequest {
+ *
+ *       @FormControlTarget(noBlockedWords)
+ *       public text: string = '';
+ *     }
+ * </code></pre>
+ *
+ * @param source {InjectedValidatorSource}
+ */
+export function injectValidator(source: InjectedValidatorSource<ValidatorFn>): ValidatorFn {
+    const validator: ValidatorFn = () => {
+        throw new Error('A validator declared with injectValidator() can only be used in forms built by FormFactory');
+    };
+    INJECTED_VALIDATORS.set(validator, source);
+
+    return validator;
+}
+
+/**
+ * Same as @see injectValidator, for async validators, e.g. checking
+ * whether a username is taken.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     @Injectable({providedIn: 'root'})
+ *     export class UsernameTakenValidator implements AsyncValidator {
+ *
+ *         private readonly http = inject(HttpClient);
+ *
+ *         validate(ctrl: AbstractControl): Observable<ValidationErrors | null> {
+ *             return this.http.get<boolean>(`/api/users/${ctrl.value}/exists`)
+ *                 .pipe(map(exists => exists ? {usernameTaken: true} : null));
+ *         }
+ *     }
+ *
+ *     class RegisterRequest {
+ *
+ *       @FormControlAsyncValidators(injectAsyncValidator(UsernameTakenValidator))
+ *       public username: string = '';
+ *     }
+ * </code></pre>
+ *
+ * @param source {InjectedValidatorSource}
+ */
+export function injectAsyncValidator(source: InjectedValidatorSource<AsyncValidatorFn>): AsyncValidatorFn {
+    const validator: AsyncValidatorFn = () => {
+        throw new Error('A validator declared with injectAsyncValidator() can only be used in forms built by FormFactory');
+    };
+    INJECTED_VALIDATORS.set(validator, source);
+
+    return validator;
+}
+
+/**
+ * This function returns a FormGroup (in particular an
+ * enhanced <strong>ModelFormGroup</strong> which controls and <strong>value</strong>
+ * are typed after the generic type supplied) based on the decorators
+ * upon a class.
+ *
+ * Each call builds a brand-new form group from the collected
+ * metadata, so two components asking for the same form never
+ * share values, validity or dirty state.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     ngOnInit(): void {
+ *         const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+ *         const invoice: InvoiceRequest = formGroup.getRawValue();
+ *     }
+ * </code></pre>
+ *
+ * An existing DTO instance can be supplied to populate the
+ * form right away (@see fillForm), e.g. for edit screens:
+ *
+ * <pre><code>
+ *     const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest, "editForm", existingInvoice);
+ * </code></pre>
+ *
+ * @param type Any given type e.g. InvoiceRequest
+ * @param formId {FormIdType}
+ * @param value Optional DTO instance to populate the form with
+ */
+export function toFormGroup<T>(type: any, formId: string | null = null, value: Partial<T> | null = null): ModelFormGroup<T> {
+    return createFormGroup<T>(type, formId, value, getAmbientFormFactory());
+}
+
+/**
+ * Same as <strong>toFormGroup</strong>, but builds one form group
+ * per supplied <strong>formId</strong>. If no formIds are supplied,
+ * all form groups defined on the type are built.
+ *
+ * @param t Any given type e.g. InvoiceRequest
+ * @param formIds The form ids to build
+ */
+export function toFormGroups<T>(t: any, formIds: string[] = []): ModelFormGroup<T>[] {
+    return createFormGroups<T>(t, formIds, getAmbientFormFactory());
+}
+
+/**
+ * Returns the metadata the decorators collected for a type,
+ * one entry per <strong>formId</strong> (the default form group
+ * is under the <strong>DEFAULT_GROUP</strong> key). Inherited
+ * form groups are already merged in (@see FormGroupExclude).
+ *
+ * The result is a frozen snapshot, changing it does not
+ * affect the forms built later.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     const metadata = getFormMetadata(InvoiceRequest);
+ *     const editForm = metadata["editForm"];
+ *     const supplierType = editForm.controls["supplier"].nested?.sourceType;
+ *     const isRequired = editForm.controls["num"].validators.includes(Validators.required);
+ * </code></pre>
+ *
+ * @param type Any given type e.g. InvoiceRequest
+ */
+export function getFormMetadata(type: any): { readonly [formId: string]: Readonly<FormGroupMetadata> } {
+    const metadata: { [formId: string]: Readonly<FormGroupMetadata> } = {};
+
+    getFormIds(type).forEach(formId => {
+        const formGroup = resolveMetadata(type, formId)!;
+        const controls: { [propName: string]: FormControlMetadata } = {};
+
+        Object.keys(formGroup.controls).forEach(propName => {
+            const control = formGroup.controls[propName];
+            controls[propName] = Object.freeze({
+                ...control,
+                validators: Object.freeze([...control.validators]) as ValidatorFn[],
+                options: Object.freeze({...control.options}),
+                constraints: Object.freeze({...control.constraints}),
+                crossFieldRules: Object.freeze(control.crossFieldRules.map(rule => Object.freeze({...rule}))) as CrossFieldRule[],
+                errorMessages: Object.freeze({...control.errorMessages}),
+                ui: Object.freeze({...control.ui}),
+                asyncValidators: Object.freeze([...control.asyncValidators]) as AsyncValidatorFn[],
+                nested: control.nested && Object.freeze({
+                    ...control.nested,
+                    sourceType: resolveSourceType(control.nested.sourceType)
+                }),
+                array: control.array && Object.freeze({
+                    ...control.array,
+                    sourceType: resolveSourceType(control.array.sourceType)
+                }),
+                valueTransforms: Object.freeze([...control.valueTransforms]) as ValueTransformFn[]
+            });
+        });
+
+        metadata[formId] = Object.freeze({
+            validators: Object.freeze([...formGroup.validators]) as ValidatorFn[],
+            asyncValidators: Object.freeze([...formGroup.asyncValidators]) as AsyncValidatorFn[],
+            controls: Object.freeze(controls),
+            excluded: Object.freeze([...formGroup.excluded]) as string[],
+            draft: formGroup.draft && Object.freeze({...formGroup.draft})
+        });
+    });
+
+    return Object.freeze(metadata);
+}
+
+/**
+ * Describes a form group as a draft 2020-12 JSON Schema, for
+ * consumers which are not Angular (mobile clients, API docs,
+ * contract tests). It walks the same metadata as @see toFormGroup.
+ *
+ * Controls become properties, typed after their default values.
+ * Constraints (@see Required, @see MinLength, ...) and the built-in
+ * <strong>Validators.required</strong>, <strong>Validators.requiredTrue</strong>
+ * and <strong>Validators.email</strong> become the matching keywords.
+ * Nested form groups (@see NestedFormGroup) and form array elements
+ * (@see FormArrayTarget) become references to <strong>$defs</strong>.
+ *
+ * Validators which cannot be expressed (custom or parameterized
+ * validator functions, async validators and cross-field rules)
+ * are listed by name under the <strong>x-unmappedValidators</strong>
+ * annotation of the schema they belong to. Parameterized validators
+ * such as <strong>Validators.minLength(3)</strong> have no name, they
+ * are listed by position, e.g. <strong>"validator#1 (...)"</strong>,
+ * only the constraint decorators are mapped to keywords.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     const schema = toJsonSchema(InvoiceRequest, "editForm");
+ *     const supplierRef = schema.properties.supplier.$ref; // "#/$defs/SupplierRequest.validatedSupplier"
+ * </code></pre>
+ *
+ * @param type Any given type e.g. InvoiceRequest
+ * @param formId {FormIdType}
+ */
+export function toJsonSchema(type: any, formId: string | null = null): JsonSchema {
+    const rootFormId = normalizeFormId(formId || undefined)[0];
+    const definitions: { [key: string]: JsonSchema } = {};
+    const refs = new Map<any, { [formId: string]: string }>([[type, {[rootFormId]: '#'}]]);
+
+    const schema: JsonSchema = {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        ...toObjectSchema(type, rootFormId, definitions, refs)
+    };
+
+    if (Object.keys(definitions).length > 0) {
+        schema.$defs = definitions;
+    }
+
+    return schema;
+}
+
+/**
+ * Populates a generated form group with the values of
+ * an existing DTO instance.
+ *
+ * Unlike <strong>patchValue</strong>, it recurses into nested
+ * form groups (@see NestedFormGroup) and resizes form arrays
+ * (@see FormArrayTarget) to match the number of incoming elements.
+ *
+ * Fields of the DTO which have no matching control are left out
+ * and their paths (e.g. <strong>supplier.vatNumber</strong> or
+ * <strong>lines[2]</strong>) are returned to the caller.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest, "editForm");
+ *     const unmatched = fillForm(formGroup, existingInvoice);
+ * </code></pre>
+ *
+ * @param formGroup A form group built by toFormGroup
+ * @param value The DTO instance to populate the form with
+ * @return The paths of DTO fields which have no matching control
+ */
+export function fillForm<T>(formGroup: FormGroup, value: Partial<T>): string[] {
+    const unmatched: string[] = [];
+    fillControl(formGroup, value, '', unmatched);
+
+    return unmatched;
+}
+
+/**
+ * The type and form id a form group was generated from,
+ * e.g. to look up its metadata (@see getFormMetadata).
+ * Nested form groups and form array elements have their own.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     const source = getFormSource(formGroup.controls.supplier);
+ *     const label = getFormMetadata(source!.type)[source!.formId].controls["name"].ui.label;
+ * </code></pre>
+ *
+ * @param formGroup Any form group
+ * @return The source, or null if the form group was not built by toFormGroup
+ */
+export function getFormSource(formGroup: AbstractControl): { readonly type: any, readonly formId: string } | null {
+    return FORM_SOURCES.get(formGroup) || null;
+}
+
+/**
+ * Builds a real instance of the type a form group was
+ * generated from, so its methods and getters are available,
+ * unlike on the plain object in <strong>value</strong>.
+ *
+ * Nested form groups and form arrays of decorated types are
+ * hydrated recursively, and each field value goes through
+ * its <strong>@ModelTransform</strong>, if one is declared.
+ * Disabled controls are included as well.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     submit(): void {
+ *         const invoice: InvoiceRequest = toModel<InvoiceRequest>(this.formGroup);
+ *         invoice.supplier.describe();
+ *     }
+ * </code></pre>
+ *
+ * @param formGroup A form group built by toFormGroup
+ */
+export function toModel<T>(formGroup: FormGroup): T {
+    const source = FORM_SOURCES.get(formGroup);
+    if (!source) {
+        throw new Error('The form group was not built by toFormGroup, so its type is unknown');
+    }
+
+    const metadata = resolveMetadata(source.type, source.formId)!;
+    const instance = createInstance(source.type);
+
+    Object.keys(metadata.controls).forEach(propName => {
+        const control = formGroup.controls[propName];
+        if (!control) {
+            return;
+        }
+
+        const value = toModelValue(control);
+        const transform = metadata.controls[propName].modelTransform;
+        instance[propName] = transform ? transform(value) : value;
+    });
+
+    return instance;
+}
+
+/**
+ * Deep-diffs a generated form group against the values it was
+ * built with (@see toFormGroup), e.g. for PATCH endpoints.
+ *
+ * Only the fields whose value differs are returned, following
+ * nested form groups (@see NestedFormGroup) so unchanged nested
+ * fields are left out as well. Form arrays are returned as a whole
+ * when any of their elements differs. Disabled controls are included.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest, "editForm", existingInvoice);
+ *     formGroup.controls.supplier.controls.name.setValue('ACME');
+ *
+ *     const patch: Partial<InvoiceRequest> = getChangedValues(formGroup); // {supplier: {name: 'ACME'}}
+ * </code></pre>
+ *
+ * @param formGroup A form group built by toFormGroup
+ */
+export function getChangedValues<T>(formGroup: FormGroup): Partial<T> {
+    return diffControl(formGroup, getInitialValue(formGroup), false)?.value || {};
+}
+
+/**
+ * Same as @see getChangedValues, but returns the fields the user
+ * has changed, i.e. the <strong>dirty</strong> controls, even if they
+ * were changed back to their initial value.
+ *
+ * @param formGroup A form group built by toFormGroup
+ */
+export function getDirtyPatch<T>(formGroup: FormGroup): Partial<T> {
+    return diffControl(formGroup, getInitialValue(formGroup), true)?.value || {};
+}
+
+/**
+ * Collects the validation errors of a generated form group into a
+ * flat list, so they can be shown without walking its controls.
+ *
+ * Each entry has the <strong>path</strong> of the control (e.g.
+ * <strong>supplier.name</strong> or <strong>lines[2].product</strong>, and an empty
+ * path for the form group itself), the error key and value, and its
+ * message (@see ErrorMessages, @see registerErrorMessages), falling
+ * back to the error key. Errors of form group validators
+ * (@see FormGroupValidators) are included as well.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     const errors = collectErrors(this.formGroup);
+ *     // [{path: 'supplier.name', errorKey: 'required', errorValue: true, message: 'Name is required'}]
+ * </code></pre>
+ *
+ * @param formGroup A form group built by toFormGroup
+ */
+export function collectErrors(formGroup: FormGroup): FormError[] {
+    const errors: FormError[] = [];
+    collectControlErrors(formGroup, '', {}, errors);
+
+    return errors;
+}
+
+/**
+ * Registers the global messages of validation errors, used
+ * for the error keys which have no message on the control
+ * itself (@see ErrorMessages). Messages for the errors of the
+ * built-in and cross-field validators are registered already,
+ * and can be replaced, e.g. to translate them.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     registerErrorMessages({
+ *         required: 'Please fill in this field',
+ *         noSpaces: 'Spaces are not allowed'
+ *     });
+ * </code></pre>
+ *
+ * @param messages The messages per error key
+ */
+export function registerErrorMessages(messages: { [errorKey: string]: ErrorMessage }) {
+    Object.assign(ERROR_MESSAGES, messages);
+}
+
+/**
+ * Sets the validation errors a backend returned for a submitted
+ * DTO on the matching controls of a generated form group.
+ *
+ * Paths can be dotted, with brackets or JSON pointers (e.g.
+ * <strong>supplier.name</strong>, <strong>lines[2].product</strong>
+ * or <strong>/lines/2/product</strong>), and are resolved through
+ * nested form groups and form arrays. An empty path is the form group itself.
+ * Each matching control is marked as touched and gets a <strong>server</strong>
+ * error with the list of messages, which Angular clears on its next value
+ * change, as it runs the validators of the control again.
+ *
+ * Supported formats are a map of paths to messages (also wrapped in
+ * <strong>errors</strong>, as in ASP.NET validation problem details),
+ * RFC 7807 problem details with <strong>invalid-params</strong> and lists
+ * of field errors such as a Spring <strong>BindingResult</strong>. The
+ * standard members of problem details (<strong>title</strong>,
+ * <strong>status</strong>, ...) are never taken as paths.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     this.invoiceService.save(invoice).subscribe({
+ *         error: response => applyServerErrors(this.formGroup, response.error)
+ *     });
+ * </code></pre>
+ *
+ * @param formGroup A form group built by toFormGroup
+ * @param errors The error response body
+ * @param options {ServerErrorsOptions}
+ * @return The paths which match no control
+ */
+export function applyServerErrors(formGroup: FormGroup, errors: any, options: ServerErrorsOptions = {}): string[] {
+    const errorKey = options.errorKey || 'server';
+    const messages = new Map<AbstractControl, string[]>();
+    const unmatched: string[] = [];
+
+    toServerFieldErrors(errors, !!options.detailToGroup).forEach(({path, message}) => {
+        const segments = toPathSegments(path);
+        let control = segments.length > 0 ? formGroup.get(segments) : formGroup;
+        if (!control) {
+            unmatched.push(path);
+            if (!options.unmatchedToGroup) {
+                return;
+            }
+
+            control = formGroup;
+        }
+
+        messages.set(control, [...(messages.get(control) || []), message]);
+    });
+
+    messages.forEach((controlMessages, control) => {
+        control.setErrors({...control.errors, [errorKey]: controlMessages});
+        control.markAsTouched();
+    });
+
+    return unmatched;
+}
+
+/**
+ * Keeps a draft of a generated form group in a storage while
+ * the user fills it in, so the contents survive reloading the
+ * page. It is done by @see toFormGroup and @see toFormGroups
+ * for the types decorated with @see PersistDraft, but can be
+ * used on its own as well.
+ *
+ * A previously saved draft is restored right away over the current
+ * value, recursing into nested form groups and form arrays, so the
+ * key has to identify the record being edited, if any. Then the value
+ * is saved on each change, once it stays unchanged for the debounce
+ * time. Fields marked with @see ExcludeFromDraft are never saved.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     ngOnInit(): void {
+ *         this.formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+ *         this.draftSubscription = persistForm(this.formGroup, "invoice-draft", {storage: DraftStorages.memory()});
+ *     }
+ *
+ *     ngOnDestroy(): void {
+ *         this.draftSubscription.unsubscribe();
+ *     }
+ * </code></pre>
+ *
+ * @param formGroup A form group built by toFormGroup
+ * @param key The key of the draft in the storage
+ * @param options {PersistDraftOptions}
+ * @return The subscription saving the draft, to stop it
+ */
+export function persistForm(formGroup: FormGroup, key: string, options: PersistDraftOptions = {}): Subscription {
+    const storage = options.storage || DraftStorages.local();
+    if (!storage) {
+        // no storage outside the browser, e.g. on server-side rendering
+        return Subscription.EMPTY;
+    }
+
+    DRAFTS.set(formGroup, {key, storage});
+
+    const saved = storage.getItem(key);
+    if (saved != undefined) {
+        try {
+            fillForm(formGroup, reviveDraftValue(formGroup, JSON.parse(saved)));
+        } catch {
+            storage.removeItem(key);
+        }
+    }
+
+    return formGroup.valueChanges
+        .pipe(debounceTime(options.debounceTime ?? 300))
+        .subscribe(() => {
+            if (DRAFTS.has(formGroup)) {
+                storage.setItem(key, JSON.stringify(toDraftValue(formGroup)));
+            }
+        });
+}
+
+/**
+ * Removes the draft of a form group (@see persistForm), e.g. after
+ * it is successfully submitted, and stops saving it. The form
+ * group itself is left as it is.
+ *
+ * @param formGroup A form group whose draft is persisted
+ */
+export function clearDraft(formGroup: FormGroup) {
+    const draft = DRAFTS.get(formGroup);
+    if (draft) {
+        DRAFTS.delete(formGroup);
+        draft.storage.removeItem(draft.key);
+    }
+}
+
+/**
+ * Records the value of a generated form group as it changes,
+ * so the changes can be undone and redone, e.g. on Ctrl+Z.
+ *
+ * Rapid edits (e.g. typing a word) are grouped into a single
+ * snapshot. Snapshots cover the whole form group, including nested
+ * form groups (@see NestedFormGroup) and form arrays, which are
+ * resized as needed. Once a snapshot is restored, the controls
+ * holding their initial value (@see toFormGroup) are marked
+ * pristine and untouched again, and the others dirty.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     ngOnInit(): void {
+ *         this.formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+ *         this.history = withHistory(this.formGroup, {limit: 100});
+ *     }
+ *
+ *     @HostListener('document:keydown.control.z')
+ *     undo(): void {
+ *         this.history.undo();
+ *     }
+ * </code></pre>
+ *
+ * <pre><code>
+ *     <button (click)="history.redo()" [disabled]="!(history.canRedo$ | async)">Redo</button>
+ * </code></pre>
+ *
+ * @param formGroup A form group built by toFormGroup
+ * @param options {FormHistoryOptions}
+ */
+export function withHistory(formGroup: FormGroup, options: FormHistoryOptions = {}): FormHistory {
+    return new FormHistory(formGroup, options);
+}
+
+/**
+ * Same as @see toFormGroup, but returns the signals of the form
+ * group (@see toSignals) instead of the form group itself.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     export class InvoiceComponent {
+ *
+ *         readonly form = toSignalForm<InvoiceRequest>(InvoiceRequest, "editForm");
+ *         readonly total = computed(() => this.form.value().items.reduce((sum, item) => sum + item.price, 0));
+ *     }
+ * </code></pre>
+ *
+ * <pre><code>
+ *     <form [formGroup]="form.formGroup">
+ *         <input formControlName="num">
+ *         <span *ngIf="form.fields.num.errors()?.['required']">Required</span>
+ *         <button [disabled]="!form.valid() || form.pending()">Save</button>
+ *     </form>
+ * </code></pre>
+ *
+ * @param type The decorated type
+ * @param formId The form group id
+ * @param value The DTO instance to populate the form with
+ * @param injector The injector whose destroy context ends the signals, the current one by default
+ */
+export function toSignalForm<T>(type: any, formId: string | null = null, value: Partial<T> | null = null, injector: Injector | null = null): SignalForm<T> {
+    const factory = injector ? injector.get(FormFactory, null) : getAmbientFormFactory();
+
+    return toSignals<T>(createFormGroup<T>(type, formId, value, factory), injector);
+}
+
+/**
+ * Exposes a generated form group as signals: <strong>value</strong>,
+ * <strong>valid</strong>, <strong>pending</strong>, <strong>dirty</strong>
+ * and <strong>errors</strong> of the form group, and the same for each of
+ * its fields, nested form groups and form array elements included.
+ * Writing through <strong>set()</strong> or <strong>update()</strong>
+ * changes the controls.
+ *
+ * The signals follow the value and status changes of the form group,
+ * so changes made with <strong>emitEvent: false</strong>, or marking
+ * a control dirty or pristine on its own, show up with the next change.
+ * The subscription ends with the destroy context, when called in an
+ * injection context or with an injector, otherwise with <strong>destroy()</strong>.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     readonly formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+ *     readonly form = toSignals(this.formGroup);
+ *
+ *     clearSupplier(): void {
+ *         this.form.fields.supplier.set(new SupplierRequest());
+ *     }
+ * </code></pre>
+ *
+ * @param formGroup A form group built by toFormGroup
+ * @param injector The injector whose destroy context ends the signals, the current one by default
+ */
+export function toSignals<T>(formGroup: ModelFormGroup<T>, injector: Injector | null = null): SignalForm<T> {
+    const signals = createControlSignals(formGroup);
+    const subscription = merge(formGroup.valueChanges, formGroup.statusChanges)
+        .subscribe(() => signals.refresh());
+
+    getDestroyRef(injector)?.onDestroy(() => subscription.unsubscribe());
+
+    return Object.assign(signals.signals, {
+        formGroup,
+        destroy: () => subscription.unsubscribe()
+    }) as SignalForm<T>;
+}
+
+/**
+ * Imports the validation metadata class-validator collected for
+ * the supplied types (and their ancestors and nested types), so
+ * DTOs shared with a backend can be turned into form groups
+ * without annotating them a second time.
+ *
+ * Validation groups become form ids, validators without a group
+ * go to the default form group and the ones marked
+ * <strong>always</strong> go to all of them. Validators with
+ * an Angular counterpart become constraints (@see Required,
+ * @see Email, @see MinLength, ...), <strong>@ValidateNested</strong>
+ * fields become nested form groups (@see NestedFormGroup), or form
+ * arrays if validated with <strong>each</strong> (@see FormArrayTarget).
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     import {getMetadataStorage} from "class-validator";
+ *
+ *     class InvoiceRequest {
+ *
+ *       @IsNotEmpty()
+ *       @Length(3, 10, {groups: [DEFAULT_GROUP, "editForm"]})
+ *       public num: string = '001';
+ *
+ *       @ValidateNested()
+ *       public supplier: SupplierRequest = new SupplierRequest();
+ *     }
+ *
+ *     importClassValidatorMetadata(InvoiceRequest, getMetadataStorage());
+ *     const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest, "editForm");
+ * </code></pre>
+ *
+ * The remaining validators stay with class-validator, they are
+ * returned (e.g. <strong>InvoiceRequest.num: isString</strong>) so they
+ * can be added with @see FormControlTarget where needed.
+ *
+ * @param types The DTO types, e.g. InvoiceRequest
+ * @param storage The class-validator metadata storage
+ * @param options {ClassValidatorImportOptions}
+ * @return The validators which have no Angular counterpart
+ */
+export function importClassValidatorMetadata(types: any | any[],
+                                             storage: ClassValidatorMetadataStorage,
+                                             options: ClassValidatorImportOptions = {}): string[] {
+    const unmapped: string[] = [];
+    // the reflect-metadata polyfill, if it is loaded
+    const reflect = Reflect as { getMetadata?(metadataKey: string, target: object, propName: string): any };
+    const resolveType = options.resolveType
+        || ((type: any, propName: string) => reflect.getMetadata?.('design:type', type.prototype, propName));
+
+    toArray(types).forEach(type => importValidationMetadata(type, storage, resolveType, unmapped));
+
+    return unmapped;
+}
+
+/**
+ * Registers a named validator for form definitions (@see defineForm),
+ * next to the built-in <strong>required</strong>, <strong>requiredTrue</strong>,
+ * <strong>email</strong>, <strong>min</strong>, <strong>max</strong>,
+ * <strong>minLength</strong>, <strong>maxLength</strong> and <strong>pattern</strong>.
+ *
+ * The factory receives whatever follows the first colon
+ * of the name used in the definition.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     registerValidator('noSpaces', () => ctrl => /\s/.test(ctrl.value) ? {noSpaces: true} : null);
+ *     registerValidator('multipleOf', arg => ctrl => ctrl.value % Number(arg) ? {multipleOf: arg} : null);
+ * </code></pre>
+ *
+ * @param name The name used in form definitions, e.g. <strong>multipleOf</strong>
+ * @param factory {ValidatorFactory}
+ */
+export function registerValidator(name: string, factory: ValidatorFactory) {
+    if (BUILT_IN_VALIDATORS.includes(name)) {
+        throw new Error(`Validator "${name}" is built-in and cannot be registered`);
+    }
+
+    VALIDATOR_REGISTRY.set(name, factory);
+}
+
+/**
+ * Defines a form from a serializable description instead of
+ * decorators, e.g. for server-driven forms which have no class.
+ *
+ * It generates a type and registers the same metadata the
+ * decorators would, so the type works with @see toFormGroup,
+ * @see toFormGroups, @see toModel and @see getFormMetadata.
+ * Validators are referred to by name (@see registerValidator),
+ * and unknown names are reported right away.
+ *
+ * Example:
+ *
+ * <pre><code>
+ *     const InvoiceForm = defineForm({
+ *         name: 'InvoiceForm',
+ *         formIds: [DEFAULT_GROUP, 'editForm'],
+ *         fields: {
+ *             num: {value: '001', validators: {[DEFAULT_GROUP]: ['required'], editForm: ['required', 'minLength:3']}},
+ *             email: {validators: ['email'], formIds: ['editForm']},
+ *             supplier: {nested: {name: 'SupplierForm', fields: {name: {validators: ['required']}}}},
+ *             tags: {array: {itemValidators: ['maxLength:10'], maxLength: 5}}
+ *         }
+ *     });
+ *
+ *     const formGroup = toFormGroup(InvoiceForm, 'editForm');
+ * </code></pre>
+ *
+ * @param definition {FormDefinition}
+ * @return The generated type
+ */
+export function defineForm<T = { [propName: string]: any }>(definition: FormDefinition): new () => T {
+    const fieldNames = Object.keys(definition.fields);
+    const nestedTypes: { [propName: string]: new () => any } = {};
+    const type = {
+        [definition.name]: class {
+            [propName: string]: any;
+
+            constructor() {
+                fieldNames.forEach(propName => {
+                    const field = definition.fields[propName];
+                    this[propName] = nestedTypes[propName]
+                        ? new nestedTypes[propName]()
+                        : field.value === undefined ? null : JSON.parse(JSON.stringify(field.value));
+                });
+            }
+        }
+    }[definition.name] as new () => T;
+
+    const formIds = definition.formIds || [DEFAULT_GROUP];
+    initializeMetadata(type, formIds);
+    getFormGroups(type, formIds).forEach(formGroup => {
+        formGroup.validators.push(...toNamedValidators(definition.validators || [], definition.name));
+    });
+
+    fieldNames.forEach(propName => {
+        const field = definition.fields[propName];
+        const where = `${definition.name}.${propName}`;
+        const fieldFormIds = field.formIds || formIds;
+        const definitions: { [formId: string]: Partial<FormControlMetadata> } = {};
+
+        fieldFormIds.forEach(f => definitions[f] = {});
+
+        const validators = field.validators || [];
+        (Array.isArray(validators) ? fieldFormIds : Object.keys(validators)).forEach(f => {
+            if (!definitions[f]) {
+                throw new Error(`Validators of ${where} are defined for the ${describeFormId(f)}, which the field is not part of`);
+            }
+
+            definitions[f] = toNamedDefinition(Array.isArray(validators) ? validators : validators[f], where);
+        });
+
+        if (field.nested) {
+            nestedTypes[propName] = defineForm(field.nested);
+            fieldFormIds.forEach(f => definitions[f].nested = {sourceType: nestedTypes[propName], sourceFormId: field.nestedFormId});
+        }
+
+        if (field.array) {
+            const array: FormArrayOptions = {
+                sourceType: field.array.items ? defineForm(field.array.items) : undefined,
+                sourceFormId: field.array.itemsFormId,
+                itemValidatorsOrOptions: toNamedValidators(field.array.itemValidators || [], where),
+                validators: toNamedValidators(field.array.validators || [], where),
+                minLength: field.array.minLength,
+                maxLength: field.array.maxLength
+            };
+            fieldFormIds.forEach(f => definitions[f].array = array);
+        }
+
+        initializeMetadata(type, fieldFormIds);
+        fieldFormIds.forEach(f => mergeControl(type, f, propName, definitions[f]));
+    });
+
+    return type;
+}
+
+function toModelValue(control: AbstractControl): any {
+    if (control instanceof FormGroup) {
+        return FORM_SOURCES.has(control) ? toModel(control) : control.getRawValue();
+    }
+
+    if (control instanceof FormArray) {
+        return control.controls.map(item => toModelValue(item));
+    }
+
+    return control.value;
+}
+
+function fillControl(control: AbstractControl, value: any, path: string, unmatched: string[]) {
+    if (control instanceof FormGroup) {
+        if (value == undefined) {
+            return;
+        }
+
+        Object.keys(value).forEach(propName => {
+            const propPath = path ? `${path}.${propName}` : propName;
+            const child = control.controls[propName];
+            if (!child) {
+                unmatched.push(propPath);
+                return;
+            }
+
+            fillControl(child, value[propName], propPath, unmatched);
+        });
+    } else if (control instanceof FormArray) {
+        const items: any[] = value || [];
+        if (control instanceof ModelFormArray) {
+            while (control.length > items.length) {
+                control.removeAt(control.length - 1);
+            }
+            while (control.length < items.length) {
+                control.push(control.createItem());
+            }
+        }
+
+        items.forEach((item, index) => {
+            if (index >= control.length) {
+                unmatched.push(`${path}[${index}]`);
+                return;
+            }
+
+            fillControl(control.at(index), item, `${path}[${index}]`, unmatched);
+        });
+    } else {
+        control.setValue(value);
+    }
+}
+
+/**
+ * Builds the signals of a control and of its descendants, along with
+ * a function bringing all of them up to date (@see toSignals).
+ * Form array elements keep their signals while they are in the array.
+ */
+function createControlSignals(control: AbstractControl): { signals: ControlSignals<any>, refresh: () => void } {
+    const value = signal(control.getRawValue());
+    const valid = signal(control.valid);
+    const pending = signal(control.pending);
+    const dirty = signal(control.dirty);
+    const errors = signal(control.errors);
+
+    const signals: ControlSignals<any> & { fields?: any, items?: WritableSignal<any[]> } = {
+        control,
+        value: value.asReadonly(),
+        valid: valid.asReadonly(),
+        pending: pending.asReadonly(),
+        dirty: dirty.asReadonly(),
+        errors: errors.asReadonly(),
+        set: newValue => fillControl(control, newValue, '', []),
+        update: updateFn => fillControl(control, updateFn(control.getRawValue()), '', [])
+    };
+
+    let children: { signals: ControlSignals<any>, refresh: () => void }[] = [];
+    let items = new Map<AbstractControl, { signals: ControlSignals<any>, refresh: () => void }>();
+    if (control instanceof FormGroup) {
+        signals.fields = {};
+        Object.keys(control.controls).forEach(propName => {
+            const child = createControlSignals(control.controls[propName]);
+            signals.fields[propName] = child.signals;
+            children.push(child);
+        });
+    } else if (control instanceof FormArray) {
+        signals.items = signal([]);
+    }
+
+    const refresh = () => {
+        if (control instanceof FormArray) {
+            const previous = [...items.keys()];
+            items = new Map(control.controls.map(item => [item, items.get(item) || createControlSignals(item)]));
+            children = [...items.values()];
+            if (previous.length !== control.length || control.controls.some((item, index) => item !== previous[index])) {
+                signals.items!.set(children.map(child => child.signals));
+            }
+        }
+
+        value.set(control.getRawValue());
+        valid.set(control.valid);
+        pending.set(control.pending);
+        dirty.set(control.dirty);
+        errors.set(control.errors);
+        children.forEach(child => child.refresh());
+    };
+
+    if (control instanceof FormArray) {
+        refresh();
+    }
+
+    return {signals, refresh};
+}
+
+/**
+ * Runs the value transforms of a field, in order.
+ */
+function applyValueTransforms(transforms: ValueTransformFn[], value: any): any {
+    return transforms.reduce((transformed, transform) => transform(transformed), value);
+}
+
+/**
+ * The destroy context of the supplied injector, or of the
+ * current injection context, if any.
+ */
+function getDestroyRef(injector: Injector | null): DestroyRef | null {
+    if (injector) {
+        return injector.get(DestroyRef, null);
+    }
+
+    return injectInContext(DestroyRef);
+}
+
+/**
+ * Flattens the supported error response formats into
+ * a list of messages per path (@see applyServerErrors).
+ */
+function toServerFieldErrors(errors: any, detailToGroup = false): { path: string, message: string }[] {
+    if (!errors || typeof errors !== 'object') {
+        return [];
+    }
+
+    if (Array.isArray(errors)) {
+        return errors.map(error => ({
+            path: String(error.field ?? error.path ?? error.name ?? error.pointer ?? ''),
+            message: String(error.defaultMessage ?? error.message ?? error.reason ?? error.detail ?? error.code)
+        }));
+    }
+
+    const problemDetails = isProblemDetails(errors);
+    const detail = problemDetails && detailToGroup && errors.detail != undefined
+        ? [{path: '', message: String(errors.detail)}]
+        : [];
+
+    const nested = errors['invalid-params'] ?? errors.invalidParams ?? errors.fieldErrors ?? errors.errors;
+    if (nested) {
+        return [...detail, ...toServerFieldErrors(nested)];
+    }
+
+    if (problemDetails) {
+        // the other members are extensions, e.g. a trace id, not paths
+        return detail;
+    }
+
+    return Object.keys(errors).flatMap(path => toArray(errors[path]).map(message => ({path, message: String(message)})));
+}
+
+/**
+ * Whether an error response body is RFC 7807 problem details. A single
+ * text member is not enough, it may as well be a field named e.g. "title".
+ */
+function isProblemDetails(errors: any): boolean {
+    return typeof errors.status === 'number'
+        || PROBLEM_DETAILS_MEMBERS.filter(member => typeof errors[member] === 'string').length > 1;
+}
+
+/**
+ * Splits a dotted, bracket or JSON pointer path
+ * into the segments of <strong>AbstractControl.get()</strong>.
+ */
+function toPathSegments(path: string): (string | number)[] {
+    return path
+        .replace(/^#?\//, '')
+        .split(/[.\/\[\]]+/)
+        .filter(segment => segment !== '')
+        .map(segment => /^\d+$/.test(segment) ? Number(segment) : segment);
+}
+
+/**
+ * The raw value of a control, without the fields
+ * excluded from drafts (@see ExcludeFromDraft).
+ */
+function toDraftValue(control: AbstractControl): any {
+    if (control instanceof FormGroup) {
+        const source = FORM_SOURCES.get(control);
+        const controls = source && resolveMetadata(source.type, source.formId)?.controls;
+        const value: { [propName: string]: any } = {};
+
+        Object.keys(control.controls)
+            .filter(propName => !controls?.[propName]?.excludeFromDraft)
+            .forEach(propName => value[propName] = toDraftValue(control.controls[propName]));
+
+        return value;
+    }
+
+    if (control instanceof FormArray) {
+        return control.controls.map(item => toDraftValue(item));
+    }
+
+    return control.getRawValue();
+}
+
+/**
+ * Turns the dates of a parsed draft, which are strings
+ * in JSON, back into dates where the control holds one.
+ */
+function reviveDraftValue(control: AbstractControl | undefined, value: any): any {
+    if (control instanceof FormGroup && value && typeof value === 'object') {
+        const revived: { [propName: string]: any } = {};
+        Object.keys(value).forEach(propName => revived[propName] = reviveDraftValue(control.controls[propName], value[propName]));
+
+        return revived;
+    }
+
+    if (control instanceof FormArray && Array.isArray(value)) {
+        return value.map((item, index) => reviveDraftValue(control.at(index), item));
+    }
+
+    return control?.value instanceof Date && typeof value === 'string'
+        ? new Date(value)
+        : value;
+}
+
+/**
+ * Adds the errors of a control and of its descendants, looking
+ * up the messages of each control in the metadata of its parent.
+ */
+function collectControlErrors(control: AbstractControl,
+                              path: string,
+                              messages: { [errorKey: string]: ErrorMessage },
+                              errors: FormError[]) {
+    Object.keys(control.errors || {}).forEach(errorKey => {
+        const errorValue = control.errors![errorKey];
+        const message = messages[errorKey] ?? ERROR_MESSAGES[errorKey] ?? errorKey;
+
+        errors.push({
+            path,
+            errorKey,
+            errorValue,
+            message: typeof message === 'function' ? message(errorValue) : message
+        });
+    });
+
+    if (control instanceof FormGroup) {
+        const source = FORM_SOURCES.get(control);
+        const controls = source && resolveMetadata(source.type, source.formId)?.controls;
+
+        Object.keys(control.controls).forEach(propName => {
+            collectControlErrors(control.controls[propName], path ? `${path}.${propName}` : propName,
+                controls?.[propName]?.errorMessages || {}, errors);
+        });
+    } else if (control instanceof FormArray) {
+        control.controls.forEach((item, index) => collectControlErrors(item, `${path}[${index}]`, messages, errors));
+    }
+}
+
+/**
+ * The changed value of a control, or null if unchanged,
+ * comparing values or following the dirty state.
+ */
+function diffControl(control: AbstractControl, initialValue: any, dirtyOnly: boolean): { value: any } | null {
+    const isChanged = dirtyOnly
+        ? control.dirty
+        : !isSameValue(control.getRawValue(), initialValue);
+    if (!isChanged) {
+        return null;
+    }
+
+    if (!(control instanceof FormGroup)) {
+        return {value: control.getRawValue()};
+    }
+
+    const value: { [propName: string]: any } = {};
+    Object.keys(control.controls).forEach(propName => {
+        const diff = diffControl(control.controls[propName], initialValue?.[propName], dirtyOnly);
+        if (diff) {
+            value[propName] = diff.value;
+        }
+    });
+
+    return Object.keys(value).length > 0 ? {value} : null;
+}
+
+function isSameValue(a: any, b: any): boolean {
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    }
+
+    if (a && b && typeof a === 'object' && typeof b === 'object') {
+        const keys = Object.keys(a);
+        return Array.isArray(a) === Array.isArray(b)
+            && keys.length === Object.keys(b).length
+            && keys.every(key => isSameValue(a[key], b[key]));
+    }
+
+    return a === b;
+}
+
+/**
+ * Marks the controls holding their initial value pristine and
+ * untouched, and the ones holding a different value dirty.
+ */
+function syncPristineState(control: AbstractControl, initialValue: any) {
+    if (control instanceof FormGroup) {
+        Object.keys(control.controls).forEach(propName =>
+            syncPristineState(control.get(propName)!, initialValue?.[propName]));
+    } else if (control instanceof FormArray) {
+        control.controls.forEach((item, index) => syncPristineState(item, initialValue?.[index]));
+    } else if (isSameValue(control.getRawValue(), initialValue)) {
+        control.markAsPristine();
+        control.markAsUntouched();
+    }
+
+    if (!isSameValue(control.getRawValue(), initialValue)) {
+        control.markAsDirty();
+    }
+}
+
+function getInitialValue(formGroup: FormGroup): any {
+    if (!INITIAL_VALUES.has(formGroup)) {
+        throw new Error('The form group was not built by toFormGroup, so its initial value is unknown');
+    }
+
+    return INITIAL_VALUES.get(formGroup);
+}
+
+/**
+ * Takes the current values of a form group and
+ * of its nested form groups as the initial ones.
+ */
+function rememberInitialValues(control: AbstractControl) {
+    if (INITIAL_VALUES.has(control)) {
+        INITIAL_VALUES.set(control, control.getRawValue());
+    }
+
+    if (control instanceof FormGroup || control instanceof FormArray) {
+        Object.values(control.controls).forEach(child => rememberInitialValues(child));
+    }
+}
+
+/**
+ * Builds a generated form group, the validators which need
+ * Angular DI are resolved through the supplied factory.
+ */
+function createFormGroup<T>(type: any, formId: string | null, value: Partial<T> | null, factory: FormFactory | null): ModelFormGroup<T> {
+    const formGroup = buildFormGroup<T>(type, normalizeFormId(formId || undefined)[0], factory);
+    if (value) {
+        fillForm(formGroup, value);
+        rememberInitialValues(formGroup);
+    }
+
+    return persistDeclaredDraft(formGroup, value);
+}
+
+function createFormGroups<T>(t: any, formIds: string[], factory: FormFactory | null): ModelFormGroup<T>[] {
+    const forms = formIds.length > 0
+        ? normalizeFormId(formIds)
+        : getFormIds(t);
+
+    return forms.map(f => persistDeclaredDraft(buildFormGroup<T>(t, f, factory)));
+}
+
+/**
+ * Restores and keeps the draft of a generated form group
+ * when its type is decorated with @see PersistDraft.
+ */
+function persistDeclaredDraft<T>(formGroup: ModelFormGroup<T>, value: Partial<T> | null = null): ModelFormGroup<T> {
+    const {type, formId} = FORM_SOURCES.get(formGroup)!;
+    const draft = resolveMetadata(type, formId)!.draft;
+    if (!draft) {
+        return formGroup;
+    }
+
+    // a fixed key is shared by all the records, so its draft must not replace a supplied one
+    const key = typeof draft.key === 'function'
+        ? draft.key(value)
+        : value ? null : draft.key;
+    if (key !== null) {
+        persistForm(formGroup, key, draft.options);
+    }
+
+    return formGroup;
+}
+
+/**
+ * The form factory of the injection context, if any.
+ */
+function getAmbientFormFactory(): FormFactory | null {
+    return injectInContext(FormFactory);
+}
+
+/**
+ * Injects the token when called in an injection context, or returns
+ * null outside of one. Other failures, e.g. of the token's own
+ * factory, are thrown as they are.
+ */
+function injectInContext<T>(token: ProviderToken<T>): T | null {
+    try {
+        return inject(token, {optional: true});
+    } catch (error) {
+        if ((error as { code?: number }).code === MISSING_INJECTION_CONTEXT) {
+            return null;
+        }
+
+        throw error;
+    }
+}
+
+/**
+ * Replaces the validators declared with @see injectValidator
+ * with the ones the form factory resolves.
+ */
+function resolveValidators<V extends ValidatorFn | AsyncValidatorFn>(validators: V[], factory: FormFactory | null): V[] {
+    return validators.map(validator => {
+        if (!INJECTED_VALIDATORS.has(validator)) {
+            return validator;
+        }
+        if (!factory) {
+            throw new Error('A validator declared with injectValidator() needs Angular DI, '
+                + 'build the form with FormFactory, or call toFormGroup in an injection context');
+        }
+
+        return factory.resolveValidator(validator);
+    });
+}
+
+function buildFormGroup<T>(type: any, formId: string, factory: FormFactory | null, ancestors: any[] = []): ModelFormGroup<T> {
+    const metadata = resolveMetadata(type, formId);
+    if (!metadata) {
+        throw new Error(`No ${describeFormId(formId)} is defined for ${type.name}`);
+    }
+
+    const defaults = createInstance(type);
+    const controls: { [propName: string]: AbstractControl } = {};
+
+    Object.keys(metadata.controls).forEach(propName => {
+        controls[propName] = buildControl(metadata.controls[propName], defaults[propName], factory, [...ancestors, type]);
+    });
+
+    const formGroup = new ModelFormGroup<T>(controls as ModelFormControls<T>,
+        resolveValidators(metadata.validators, factory),
+        resolveValidators(metadata.asyncValidators, factory));
+    FORM_SOURCES.set(formGroup, {type, formId});
+
+    wireCrossFieldRules(type, formId, metadata, formGroup);
+    wireConditionalControls(metadata, formGroup);
+    INITIAL_VALUES.set(formGroup, formGroup.getRawValue());
+
+    return formGroup;
+}
+
+/**
+ * Re-validates the controls with cross-field rules
+ * whenever the sibling controls they refer to change.
+ */
+function wireCrossFieldRules(type: any, formId: string, metadata: FormGroupMetadata, formGroup: FormGroup) {
+    Object.keys(metadata.controls).forEach(propName => {
+        const control = formGroup.controls[propName];
+
+        metadata.controls[propName].crossFieldRules.forEach(rule => {
+            const sibling = formGroup.controls[rule.field];
+            if (!sibling) {
+                throw new Error(`${type.name}.${propName} refers to "${rule.field}", which is not a control of the ${describeFormId(formId)}`);
+            }
+
+            // no events, so rules referring to each other do not re-validate endlessly
+            sibling.valueChanges.subscribe(() => control.updateValueAndValidity({emitEvent: false}));
+        });
+
+        if (metadata.controls[propName].crossFieldRules.length > 0) {
+            control.updateValueAndValidity();
+        }
+    });
+}
+
+/**
+ * Enables or disables the controls declared with @EnabledIf
+ * whenever the value of their form group changes. Events are
+ * emitted, so conditions of nested form groups are re-checked
+ * when a whole nested group gets enabled.
+ */
+function wireConditionalControls(metadata: FormGroupMetadata, formGroup: FormGroup) {
+    const propNames = Object.keys(metadata.controls).filter(propName => metadata.controls[propName].enabledIf);
+    if (propNames.length == 0) {
+        return;
+    }
+
+    const toggle = () => {
+        propNames.forEach(propName => {
+            const control = formGroup.controls[propName];
+            const enabled = metadata.controls[propName].enabledIf!(formGroup.getRawValue());
+
+            if (enabled && control.disabled) {
+                control.enable();
+            } else if (!enabled && control.enabled) {
+                control.disable();
+            }
+        });
+    };
+
+    toggle();
+    formGroup.valueChanges.subscribe(() => toggle());
+}
+
+function buildControl(control: FormControlMetadata,
+                      defaultValue: any,
+                      factory: FormFactory | null,
+                      ancestors: any[]): AbstractControl {
+    const validators = [
+        ...resolveValidators(control.validators, factory),
+        ...constraintValidators(control.constraints),
+        ...control.crossFieldRules.map(rule => crossFieldValidator(rule))
+    ];
+    const asyncValidators = resolveValidators(control.asyncValidators, factory);
+
+    const nestedType = control.nested && resolveSourceType(control.nested.sourceType);
+    if (control.nested && isBeyondMaxDepth(nestedType, control.nested.maxDepth, ancestors)) {
+        return new FormControl(defaultValue ?? null);
+    }
+
+    if (!control.array && !control.nested) {
+        const options = {...control.options, validators, asyncValidators};
+
+        return control.valueTransforms.length > 0
+            ? new TransformedFormControl(control.valueTransforms, defaultValue, options)
+            : new FormControl(defaultValue, options);
+    }
+
+    const built = control.array
+        ? buildFormArray(control.array, defaultValue, factory, control.valueTransforms)
+        : buildFormGroup(nestedType, normalizeFormId(control.nested!.sourceFormId)[0], factory, ancestors);
+
+    if (validators.length > 0 || asyncValidators.length > 0) {
+        built.addValidators(validators);
+        built.addAsyncValidators(asyncValidators);
+        built.updateValueAndValidity({emitEvent: false});
+    }
+
+    return built;
+}
+
+/**
+ * The type a nested form group or form array is built from,
+ * calling the thunk it is declared with, if any. Classes are
+ * told apart from thunks by having a prototype.
+ */
+function resolveSourceType(sourceType: any): any {
+    if (typeof sourceType !== 'function' || sourceType.prototype) {
+        return sourceType;
+    }
+
+    const resolved = sourceType();
+    if (typeof resolved !== 'function') {
+        throw new Error(`A source type thunk returned ${resolved} instead of a class, is the class declared?`);
+    }
+
+    return resolved;
+}
+
+/**
+ * Whether a nested form group would be nested deeper within its own
+ * type than its <strong>maxDepth</strong>, failing when the nesting
+ * is recursive and has no <strong>maxDepth</strong>, as it would never end.
+ */
+function isBeyondMaxDepth(type: any, maxDepth: number | undefined, ancestors: any[]): boolean {
+    const depth = ancestors.filter(ancestor => ancestor === type).length;
+    if (depth > 0 && maxDepth == undefined) {
+        throw new Error(`Infinitely recursive form group ${[...ancestors, type].map(t => t.name).join(' -> ')}, `
+            + 'set a maxDepth on @NestedFormGroup, or use a form array');
+    }
+
+    return maxDepth != undefined && depth > maxDepth;
+}
+
+function buildFormArray<T>(options: FormArrayOptions,
+                           defaultValue: T[] | undefined,
+                           factory: FormFactory | null,
+                           itemTransforms: ValueTransformFn[]): ModelFormArray<T> {
+    const itemDefinition = toControlDefinition(options.itemValidatorsOrOptions ?? null);
+    const itemFactory = (value?: T): ModelFormControl<T> => {
+        if (!options.sourceType) {
+            const itemOptions = {
+                ...itemDefinition.options,
+                validators: resolveValidators(itemDefinition.validators || [], factory),
+                asyncValidators: resolveValidators(itemDefinition.asyncValidators || [], factory)
+            };
+
+            return (itemTransforms.length > 0
+                ? new TransformedFormControl(itemTransforms, value ?? null, itemOptions)
+                : new FormControl(value ?? null, itemOptions)) as ModelFormControl<T>;
+        }
+
+        const item = buildFormGroup<T>(resolveSourceType(options.sourceType), normalizeFormId(options.sourceFormId)[0], factory);
+        if (value != undefined) {
+            // unlike patchValue, resizes the form arrays of the element
+            fillControl(item, value, '', []);
+        }
+
+        return item as ModelFormControl<T>;
+    };
+
+    const validators = resolveValidators(options.validators ? toArray(options.validators) : [], factory);
+    if (options.minLength != undefined) {
+        validators.push(arrayMinLength(options.minLength));
+    }
+    if (options.maxLength != undefined) {
+        validators.push(Validators.maxLength(options.maxLength));
+    }
+
+    return new ModelFormArray<T>(
+        itemFactory,
+        (defaultValue || []).map(value => itemFactory(value)),
+        validators,
+        resolveValidators(options.asyncValidators ? toArray(options.asyncValidators) : [], factory)
+    );
+}
+
+/**
+ * Validators.minLength() treats an empty array as an empty
+ * value and skips it, which is not what a minimum number
+ * of elements means.
+ */
+function arrayMinLength(minLength: number): ValidatorFn {
+    return (control: AbstractControl) => {
+        const actualLength = (control.value || []).length;
+
+        return actualLength < minLength
+            ? {minlength: {requiredLength: minLength, actualLength}}
+            : null;
+    };
+}
+
+/**
+ * Merges the metadata of a form group with the metadata of
+ * the same form group on every ancestor of the type, so DTO
+ * subclasses inherit controls and validators.
+ *
+ * Group validators accumulate, and the decorators a subclass
+ * applies to an inherited field merge into the inherited control,
+ * unless it redeclares the field with @FormControlTarget, which
+ * replaces it. Controls excluded by @FormGroupExclude are dropped.
+ */
+function resolveMetadata(type: any, formId: string): FormGroupMetadata | undefined {
+    let resolved: FormGroupMetadata | undefined = undefined;
+
+    getTypeHierarchy(type).forEach(t => {
+        const own = METADATA.get(t)?.[formId];
+        if (!own) {
+            return;
+        }
+
+        const controls = {...(resolved?.controls || {})};
+        own.excluded.forEach(propName => delete controls[propName]);
+        Object.keys(own.controls).forEach(propName => {
+            const control = own.controls[propName];
+            controls[propName] = controls[propName] && !REDECLARED_CONTROLS.has(control)
+                ? mergeInheritedControl(t, formId, propName, controls[propName], control)
+                : control;
+        });
+
+        resolved = {
+            validators: [...(resolved?.validators || []), ...own.validators],
+            asyncValidators: [...(resolved?.asyncValidators || []), ...own.asyncValidators],
+            controls,
+            excluded: [...(resolved?.excluded || []), ...own.excluded],
+            draft: own.draft || resolved?.draft || null
+        };
+    });
+
+    return resolved;
+}
+
+/**
+ * All form ids defined on the type or any of its ancestors.
+ */
+function getFormIds(type: any): string[] {
+    const formIds: string[] = [];
+
+    getTypeHierarchy(type).forEach(t => {
+        Object.keys(METADATA.get(t) || {})
+            .filter(f => !formIds.includes(f))
+            .forEach(f => formIds.push(f));
+    });
+
+    return formIds;
+}
+
+/**
+ * The type and all of its ancestors, the root ancestor first.
+ */
+function getTypeHierarchy(type: any): any[] {
+    const types: any[] = [];
+    for (let t = type; t && t !== Function.prototype; t = Object.getPrototypeOf(t)) {
+        types.unshift(t);
+    }
+
+    return types;
+}
+
+/**
+ * Resolves the property name of a decorated constructor parameter
+ * without instantiating the class: from @ParamName, or else from the
+ * constructor source, following <strong>this.prop = param</strong>
+ * assignments, so parameter properties survive minification.
+ */
+function resolveParameterName(type: any, parameterIndex: number): string {
+    const explicitName = PARAMETER_NAMES.get(type)?.[parameterIndex];
+    if (explicitName) {
+        return explicitName;
+    }
+
+    const source: string = type.toString();
+    const signature = /\bconstructor\s*\(/.exec(source);
+    const parameters = signature ? splitTopLevel(source, signature.index + signature[0].length - 1) : null;
+    const parameter = parameters?.items[parameterIndex]?.trim().replace(/^\.\.\./, '') || '';
+    const paramName = /^[A-Za-z_$][\w$]*/.exec(parameter)?.[0];
+
+    if (!parameters || !paramName) {
+        throw new Error(`Cannot resolve the name of constructor parameter #${parameterIndex} of ${type.name}, use @ParamName() as its last decorator`);
+    }
+
+    const bodyStart = source.indexOf('{', parameters.end);
+    const body = bodyStart >= 0 ? source.substring(bodyStart, splitTopLevel(source, bodyStart).end) : '';
+    const assignment = new RegExp(`\\bthis\\.([A-Za-z_$][\\w$]*)\\s*=\\s*${paramName.replace(/\$/g, '\\$')}\\s*[;,})\\n]`).exec(body);
+
+    return assignment ? assignment[1] : paramName;
+}
+
+/**
+ * Splits the source between the bracket at <strong>start</strong> and its
+ * matching closing bracket by the commas which are not nested in other
+ * brackets or strings. Returns the parts and the index after the closing bracket.
+ */
+function splitTopLevel(source: string, start: number): { items: string[], end: number } {
+    const items: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let itemStart = start + 1;
+
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+
+        if (quote) {
+            if (char == '\\') {
+                i++;
+            } else if (char == quote) {
+                quote = null;
+            }
+        } else if (char == '"' || char == "'" || char == '`') {
+            quote = char;
+        } else if ('([{'.includes(char)) {
+            depth++;
+        } else if (')]}'.includes(char)) {
+            depth--;
+            if (depth == 0) {
+                items.push(source.substring(itemStart, i));
+                return {items: items.filter(item => item.trim() != ''), end: i + 1};
+            }
+        } else if (char == ',' && depth == 1) {
+            items.push(source.substring(itemStart, i));
+            itemStart = i + 1;
+        }
+    }
+
+    return {items, end: source.length};
+}
+
+/**
+ * Instantiates a DTO to read its default values. Constructors
+ * which cannot run without arguments give no defaults instead
+ * of breaking the form.
+ */
+function createInstance(type: any): any {
+    try {
+        return new type();
+    } catch {
+        return Object.create(type.prototype);
+    }
+}
+
+function getFormGroups(target: any, formId: FormIdType): FormGroupMetadata[] {
+    return normalizeFormId(formId).map(f => METADATA.get(target)![f]);
+}
+
+function getControl(formGroup: FormGroupMetadata, propName: string): FormControlMetadata {
+    if (!formGroup.controls[propName]) {
+        formGroup.controls[propName] = {
+            validators: [],
+            asyncValidators: [],
+            options: {},
+            constraints: {},
+            crossFieldRules: [],
+            enabledIf: null,
+            errorMessages: {},
+            excludeFromDraft: false,
+            ui: {},
+            nested: null,
+            array: null,
+            modelTransform: null,
+            valueTransforms: []
+        };
+    }
+
+    return formGroup.controls[propName];
+}
+
+/**
+ * Merges what a single field decorator contributes into the
+ * control definition, so the result does not depend on the
+ * order the decorators are applied in. Validators accumulate,
+ * while options, nesting and transforms which contradict
+ * each other are reported as errors.
+ */
+function mergeControl(type: any, formId: FormIdType, propName: string, definition: Partial<FormControlMetadata>) {
+    normalizeFormId(formId).forEach(f => {
+        const control = getControl(METADATA.get(type)![f], propName);
+
+        // decorators are applied bottom-up, transforms run in the order they are written
+        control.valueTransforms.unshift(...(definition.valueTransforms || []));
+        mergeDefinition(control, definition, what =>
+            new Error(`Conflicting ${what} for ${type.name}.${propName} in the ${describeFormId(f)}`));
+    });
+}
+
+/**
+ * Merges the control a subclass declares into the inherited one
+ * (@see resolveMetadata) by the same rules as @see mergeControl.
+ * Transforms of the subclass run after the inherited ones.
  */
-export function FormGroupValidators(validators: ValidatorFn | ValidatorFn[], formId: FormIdType = undefined) {
-    return (target: any) => {
-        initializeMetadata(target, formId);
-        getFormGroups(target, formId).forEach(formGroup => formGroup.addValidators(validators))
-    }
+function mergeInheritedControl(type: any,
+                               formId: string,
+                               propName: string,
+                               inherited: FormControlMetadata,
+                               own: FormControlMetadata): FormControlMetadata {
+    const control: FormControlMetadata = {
+        ...inherited,
+        validators: [...inherited.validators],
+        asyncValidators: [...inherited.asyncValidators],
+        options: {...inherited.options},
+        constraints: {...inherited.constraints},
+        crossFieldRules: [...inherited.crossFieldRules],
+        errorMessages: {...inherited.errorMessages},
+        ui: {...inherited.ui},
+        valueTransforms: [...inherited.valueTransforms, ...own.valueTransforms]
+    };
+
+    mergeDefinition(control, own, what =>
+        new Error(`Conflicting ${what} for ${type.name}.${propName} and the inherited field in the ${describeFormId(formId)}, `
+            + 'redeclare it with @FormControlTarget to override the inherited one'));
+
+    return control;
 }
 
 /**
- * Decorator used on a class to denote that
- * this class, which is already a target of
- * a form group (@see @FormGroupTarget)
- * will have asynchronous validators.
- *
- * In order to add different validators to
- * different form groups of the same type,
- * an additional parameter <strong>formId</strong>
- * should be supplied
- *
- * Example:
- * <pre><code>
- *
- *     @FormGroupTarget()
- *     @FormGroupValidators(Validators.email)
- *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
- *
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators(Validators.requiredTrue, "editForm")
- *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
- *     class InvoiceRequest {
- *
- *     }
- *
- * </code></pre>
- *
- * If two or more forms share the same validators,
- * an array of <strong>formId</strong> could be supplied,
- * so they will reflect in all of them.
- * If you do not name your default form group, a formId will
- * be assigned from the library. In order to access it later
- * (e.g. in the <strong>formId</strong> array) use the
- * <strong>DEFAULT_GROUP</strong> constant.
- *
- * Example:
- * <pre><code>
- *
- *     @FormGroupTarget()
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators([Validators.email, Validators.requiredTrue], [DEFAULT_GROUP, "editForm"])
- *     @FormGroupAsyncValidators([ctrl => of({ value: ctrl.value}), ctrl => of({ empty: !ctrl.value})], [DEFAULT_GROUP, "editForm"])
- *     class InvoiceRequest {
- *
- *     }
- *
- * </code></pre>
- *
- * @param validators {AsyncValidatorFn | AsyncValidatorFn[]}
- * @param formId {FormIdType}
- * @constructor
+ * Merges a control definition into a control, except for
+ * the value transforms, whose order depends on the caller.
  */
-export function FormGroupAsyncValidators(validators: AsyncValidatorFn | AsyncValidatorFn[], formId: FormIdType = undefined) {
-    return (target: any) => {
-        initializeMetadata(target, formId);
-        getFormGroups(target, formId).forEach(formGroup => formGroup.addAsyncValidators(validators))
+function mergeDefinition(control: FormControlMetadata,
+                         definition: Partial<FormControlMetadata>,
+                         conflict: (what: string) => Error) {
+    control.validators.push(...(definition.validators || []));
+    control.asyncValidators.push(...(definition.asyncValidators || []));
+    control.crossFieldRules.push(...(definition.crossFieldRules || []));
+
+    mergeKeys(control.options, definition.options, key => conflict(`"${key}" options`));
+    mergeKeys(control.constraints, definition.constraints, key => conflict(`"${key}" constraints`));
+    mergeKeys(control.errorMessages, definition.errorMessages, key => conflict(`"${key}" error messages`));
+    mergeKeys(control.ui, definition.ui, key => conflict(`"${key}" UI settings`));
+
+    if (definition.nested) {
+        if (control.nested && (control.nested.sourceType !== definition.nested.sourceType
+            || control.nested.sourceFormId !== definition.nested.sourceFormId)) {
+            throw conflict('nested form groups');
+        }
+
+        control.nested = definition.nested;
+    }
+
+    if (definition.array) {
+        if (control.array && control.array !== definition.array) {
+            throw conflict('form arrays');
+        }
+
+        control.array = definition.array;
+    }
+
+    if (definition.excludeFromDraft) {
+        control.excludeFromDraft = true;
+    }
+
+    if (definition.enabledIf) {
+        if (control.enabledIf && control.enabledIf !== definition.enabledIf) {
+            throw conflict('enabling conditions');
+        }
+
+        control.enabledIf = definition.enabledIf;
+    }
+
+    if (definition.modelTransform) {
+        if (control.modelTransform && control.modelTransform !== definition.modelTransform) {
+            throw conflict('model transforms');
+        }
+
+        control.modelTransform = definition.modelTransform;
+    }
+
+    if (control.nested && control.array) {
+        throw conflict('definitions, it is both a nested form group and a form array');
+    }
+
+    if ((control.nested || control.array) && Object.keys(control.options).length > 0) {
+        throw conflict('definitions, FormControl options cannot be applied to a nested form group or a form array');
+    }
+
+    if ((control.nested || control.array?.sourceType) && control.valueTransforms.length > 0) {
+        throw conflict('definitions, value transforms cannot be applied to a nested form group');
     }
 }
 
 /**
- * Decorator used on a <strong>field/property</strong> or a
- * constructor <strong>parameter</strong> to denote that
- * this property is a <strong>FormControl</strong>
- *
- * Same as @see FormGroupValidators it can be associated
- * to a particular form group by supplied <strong>formId</strong>.
- *
- * This decorator also accepts as an argument on or more
- * Validators or FormControlOptions (optionally).
- *
- * Example:
- *
- * <pre><code>
- *     @FormGroupTarget()
- *     @FormGroupValidators(Validators.email)
- *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
- *
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators(Validators.requiredTrue, "editForm")
- *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
- *     class InvoiceRequest {
- *
- *       @FormControlTarget(Validators.required)
- *       @FormControlTarget(Validators.minLength(3), "editForm")
- *       public num: string = '001';
- *
- *       constructor(
- *           @FormControlTarget([], "editForm")
- *           public date: Date = new Date()
- *       ) { }
- *     }
- *  </code></pre>
- *
- *  If a form control shares the same settings on two or more
- *  form groups, an array of <strong>formId</strong> can be supplied
- *
- * Example:
- *
- * <pre><code>
- *     @FormGroupTarget()
- *     @FormGroupValidators(Validators.email)
- *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
- *
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators(Validators.requiredTrue, "editForm")
- *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
- *     class InvoiceRequest {
- *
- *       @FormControlTarget([Validators.required, Validators.minLength(3)], [DEFAULT_GROUP, "editForm"])
- *       public num: string = '001';
- *
- *       constructor(
- *           @FormControlTarget([], [DEFAULT_GROUP, "editForm"])
- *           public date: Date = new Date()
- *       ) { }
- *     }
- *  </code></pre>
- *
- * @param validatorsOrOptions {ValidatorFn | ValidatorFn[] | FormControlOptions}
- * @param formId {FormIdType}
- * @constructor
+ * Copies the defined keys of <strong>source</strong> into <strong>target</strong>,
+ * failing on keys which already have a different value. Arrays and
+ * objects (e.g. UI options) are compared by their contents, patterns
+ * by their source and functions (e.g. source types) by identity.
+ */
+function mergeKeys(target: any, source: any, conflict: (key: string) => Error) {
+    Object.keys(source || {}).filter(key => source[key] !== undefined).forEach(key => {
+        const same = target[key] instanceof RegExp || source[key] instanceof RegExp
+            ? String(target[key]) === String(source[key])
+            : isSameValue(target[key], source[key]);
+        if (target[key] !== undefined && !same) {
+            throw conflict(key);
+        }
+
+        target[key] = source[key];
+    });
+}
+
+/**
+ * A decorator of a <strong>field/property</strong> or a constructor
+ * <strong>parameter</strong>, merging the definition into its control.
  */
-export function FormControlTarget(validatorsOrOptions: ValidatorFn | ValidatorFn[] | FormControlOptions | null = null, formId: string | string[] | undefined = undefined) {
-    return (target: any, propName: string, descriptor: any = null) => {
+function fieldDecorator(definition: Partial<FormControlMetadata>, formId: FormIdType) {
+    return (target: any, propName: any, descriptor: any = null) => {
         const type = target.constructor.name == Function.name
             ? target
             : target.constructor;
 
         if (descriptor != undefined) {
-            propName = Object.keys(new target())[descriptor];
+            propName = resolveParameterName(type, descriptor);
         }
 
         initializeMetadata(type, formId);
 
-        getFormGroups(type, formId).forEach(formGroup => {
-            if (!formGroup.get(propName)) {
-                formGroup.addControl(propName, new FormControl(
-                    new type()[propName],
-                    validatorsOrOptions
-                ));
-            } else {
-                const ctrl = formGroup.get(propName);
-                formGroup.removeControl(propName);
-                formGroup.addControl(propName, new FormControl(
-                    ctrl?.value,
-                    validatorsOrOptions,
-                    ctrl?.asyncValidator
-                ));
-            }
-        });
+        mergeControl(type, formId, propName, definition);
     }
 }
 
 /**
- * Decorator used on a <strong>field/property</strong> or a
- * constructor <strong>parameter</strong> to denote that
- * this form control has asynchronous validators.
- *
- * Same as @see FormGroupValidators it can be associated
- * to a particular form group by supplied <strong>formId</strong>.
- *
- *
- * Example:
- *
- * <pre><code>
- *     @FormGroupTarget()
- *     @FormGroupValidators(Validators.email)
- *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
- *
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators(Validators.requiredTrue, "editForm")
- *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
- *     class InvoiceRequest {
- *
- *       @FormControlTarget(Validators.required)
- *       @FormControlTarget(Validators.minLength(3), "editForm")
- *       @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
- *       @FormControlAsyncValidators(ctrl => of({ notOk: ctrl.state != 'VALID'}), "editForm")
- *       public num: string = '001';
- *
- *       constructor(
- *           @FormControlTarget([], "editForm")
- *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
- *           public date: Date = new Date()
- *       ) { }
- *     }
- *  </code></pre>
- *
- *  If a form control shares the same async validators on two or more
- *  form groups, an array of <strong>formId</strong> can be supplied
- *
- * Example:
- *
- * <pre><code>
- *     @FormGroupTarget()
- *     @FormGroupValidators(Validators.email)
- *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
- *
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators(Validators.requiredTrue, "editForm")
- *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
- *     class InvoiceRequest {
- *
- *       @FormControlTarget([Validators.required, Validators.minLength(3)], [DEFAULT_GROUP, "editForm"])
- *       @FormControlAsyncValidators([ctrl => of({ ok: ctrl.state == 'VALID'}), ctrl => of({ notOk: ctrl.state != 'VALID'})], [DEFAULT_GROUP, "editForm"])
- *       public num: string = '001';
- *
- *       constructor(
- *           @FormControlTarget([], [DEFAULT_GROUP, "editForm"])
- *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}), [DEFAULT_GROUP, "editForm"])
- *           public date: Date = new Date()
- *       ) { }
- *     }
- *  </code></pre>
- *
- * @param validators {AsyncValidatorFn | AsyncValidatorFn[]}
- * @param formId {FormIdType}
- * @constructor
+ * The validator of a cross-field rule. It reads the sibling
+ * through the parent, so it is a no-op until the control
+ * is added to its form group.
  */
-export function FormControlAsyncValidators(validators: AsyncValidatorFn | AsyncValidatorFn[], formId: string | string[] | undefined = undefined) {
-    return (target: any, propName: string, descriptor: any = null) => {
-        const type = target.constructor.name == Function.name
-            ? target
-            : target.constructor;
+function crossFieldValidator(rule: CrossFieldRule): ValidatorFn {
+    return (control: AbstractControl) => {
+        const sibling = control.parent?.get(rule.field);
+        if (!sibling) {
+            return null;
+        }
+
+        switch (rule.rule) {
+            case 'matchesField':
+                return control.value === sibling.value
+                    ? null
+                    : {matchesField: {field: rule.field}};
+            case 'requiredIf':
+                return rule.condition!(sibling.value) && Validators.required(control)
+                    ? {requiredIf: {field: rule.field}}
+                    : null;
+            case 'dateAfter':
+                return control.value && sibling.value && new Date(control.value) <= new Date(sibling.value)
+                    ? {dateAfter: {field: rule.field, after: sibling.value}}
+                    : null;
+        }
+    };
+}
+
+/**
+ * The built-in validators matching the declared constraints.
+ */
+function constraintValidators(constraints: FormControlConstraints): ValidatorFn[] {
+    const validators: ValidatorFn[] = [];
+
+    if (constraints.required) {
+        validators.push(Validators.required);
+    }
+    if (constraints.requiredTrue) {
+        validators.push(Validators.requiredTrue);
+    }
+    if (constraints.email) {
+        validators.push(Validators.email);
+    }
+    if (constraints.min != undefined) {
+        validators.push(Validators.min(constraints.min));
+    }
+    if (constraints.max != undefined) {
+        validators.push(Validators.max(constraints.max));
+    }
+    if (constraints.minLength != undefined) {
+        validators.push(Validators.minLength(constraints.minLength));
+    }
+    if (constraints.maxLength != undefined) {
+        validators.push(Validators.maxLength(constraints.maxLength));
+    }
+    if (constraints.pattern != undefined) {
+        validators.push(Validators.pattern(constraints.pattern));
+    }
+
+    return validators;
+}
+
+/**
+ * Splits the <strong>FormControlTarget</strong> argument into
+ * validators, async validators and the remaining options.
+ */
+function toControlDefinition(validatorsOrOptions: ValidatorsOrOptionsType): Partial<FormControlMetadata> {
+    if (!validatorsOrOptions) {
+        return {};
+    }
+
+    if (typeof validatorsOrOptions === 'function' || Array.isArray(validatorsOrOptions)) {
+        return {validators: toArray(validatorsOrOptions)};
+    }
+
+    const {validators, asyncValidators, ...options} = validatorsOrOptions;
+
+    return {
+        validators: validators ? toArray(validators) : [],
+        asyncValidators: asyncValidators ? toArray(asyncValidators) : [],
+        options
+    };
+}
+
+/**
+ * Imports the own class-validator metadata of the type and of
+ * each of its ancestors, so inheritance works the same way
+ * as for decorated types. Each type is imported only once.
+ */
+function importValidationMetadata(type: any,
+                                  storage: ClassValidatorMetadataStorage,
+                                  resolveType: (type: any, propName: string) => any,
+                                  unmapped: string[]) {
+    getTypeHierarchy(type).filter(t => !IMPORTED_TYPES.has(t)).forEach(t => {
+        IMPORTED_TYPES.add(t);
+
+        const metadatas = storage.getTargetValidationMetadatas(t, '', false, false)
+            .filter(m => m.target === t);
+        const formIds = [...new Set([DEFAULT_GROUP, ...metadatas.flatMap(m => m.groups || [])])];
+        const arrays: { [key: string]: FormArrayOptions } = {};
+
+        initializeMetadata(t, formIds);
 
-        if (descriptor != undefined) {
-            propName = Object.keys(new target())[descriptor];
-        }
+        metadatas.forEach(m => {
+            const name = m.type === 'customValidation' ? m.name || m.type : m.type;
+            const targetFormIds = m.always ? formIds : (m.groups?.length ? m.groups : [DEFAULT_GROUP]);
+            const constraints = toImportedConstraints(name, m.constraints);
+            const isArray = !!m.each || ['isArray', 'arrayMinSize', 'arrayMaxSize'].includes(name);
 
-        initializeMetadata(type, formId);
+            let nestedType = name === 'nestedValidation' ? resolveType(t, m.propertyName) : null;
+            if (nestedType === Object || nestedType === Array) {
+                nestedType = null;
+            }
+            if (nestedType) {
+                importValidationMetadata(nestedType, storage, resolveType, unmapped);
+            }
 
-        getFormGroups(type, formId).forEach(formGroup => {
-            if (!formGroup.get(propName)) {
-                formGroup.addControl(propName, new FormControl(
-                    new type()[propName],
-                    null,
-                    validators
-                ));
-            } else {
-                formGroup.get(propName)?.addAsyncValidators(validators);
+            const isMapped = constraints
+                ? !m.each
+                : !!nestedType || ['conditionalValidation', 'whitelistValidation', 'isArray',
+                    'arrayMinSize', 'arrayMaxSize'].includes(name);
+            if (!isMapped) {
+                unmapped.push(`${t.name}.${m.propertyName}: ${name}`);
             }
+
+            targetFormIds.forEach(f => {
+                const definition: Partial<FormControlMetadata> = constraints && !m.each ? {constraints} : {};
+                const sourceFormId = nestedType && f !== DEFAULT_GROUP && getFormIds(nestedType).includes(f)
+                    ? f
+                    : undefined;
+
+                if (isArray) {
+                    const array = arrays[`${f}.${m.propertyName}`] ??= {};
+                    if (nestedType) {
+                        array.sourceType = nestedType;
+                        array.sourceFormId = sourceFormId;
+                    }
+                    if (name === 'arrayMinSize') {
+                        array.minLength = m.constraints[0];
+                    }
+                    if (name === 'arrayMaxSize') {
+                        array.maxLength = m.constraints[0];
+                    }
+
+                    definition.array = array;
+                } else if (nestedType) {
+                    definition.nested = {sourceType: nestedType, sourceFormId};
+                }
+
+                mergeControl(t, f, m.propertyName, definition);
+            });
         });
+    });
+}
+
+/**
+ * The constraints matching a class-validator validator,
+ * or null if it has no Angular counterpart.
+ */
+function toImportedConstraints(name: string, args: any[]): FormControlConstraints | null {
+    switch (name) {
+        case 'isDefined':
+        case 'isNotEmpty':
+            return {required: true};
+        case 'isEmail':
+            return {email: true};
+        case 'min':
+            return {min: args[0]};
+        case 'max':
+            return {max: args[0]};
+        case 'minLength':
+            return {minLength: args[0]};
+        case 'maxLength':
+            return {maxLength: args[0]};
+        case 'isLength':
+            return {minLength: args[0] ?? undefined, maxLength: args[1] ?? undefined};
+        case 'matches':
+            return {pattern: args[0] instanceof RegExp ? args[0] : new RegExp(args[0], args[1])};
+        default:
+            return null;
     }
 }
 
 /**
- * Decorator used on a <strong>field/property</strong> or a
- * constructor <strong>parameter</strong> to denote that
- * this form control is actually a previously defined form group,
- * in other words - a nested form group.
- *
- * This is the equivalent of:
- *
- * <pre><code>
- *     const topLevelFormGroup = new FormGroup({
- *         fieldOne: new FormControl(...),
- *         nestedFormGroup: new FormGroup({  // <---- this
- *             nestedFieldInNestedGroup: new FormControl(...)
- *         })
- *     });
- * </code></pre>
- *
- *
- * Same as @see FormGroupValidators it can be associated
- * to a particular form group by supplied <strong>targetFormId</strong>.
- *
- * Also, since the nested entity may define more than one form group
- * as described the nature of the decorators above, the second parameter
- * <strong>sourceFormId</strong> actually chooses which of them to nest.
- *
- *
- * Example (Basic):
- *
- * <pre><code>
- *
- *     @FormGroupTarget()
- *     class SupplierRequest {
- *
- *         @FormControlTarget()
- *         public name: string = '';
- *
- *         @FormControlTarget()
- *         public address: string = '';
- *     }
- *
- *     @FormGroupTarget()
- *     @FormGroupValidators(Validators.email)
- *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
- *
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators(Validators.requiredTrue, "editForm")
- *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
- *     class InvoiceRequest {
- *
- *       @FormControlTarget(Validators.required)
- *       @FormControlTarget(Validators.minLength(3), "editForm")
- *       @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
- *       @FormControlAsyncValidators(ctrl => of({ notOk: ctrl.state != 'VALID'}), "editForm")
- *       public num: string = '001';
- *
- *       constructor(
- *           @FormControlTarget([], "editForm")
- *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
- *           public date: Date = new Date(),
- *
- *           @NestedFormGroup(SupplierRequest)
- *           public supplier: SupplierRequest = new SupplierRequest()
- *       ) { }
- *     }
- *  </code></pre>
- *
- *  If the nested form group (the SupplierRequest) defines more than
- *  one form group, we can choose which one of them to nest.
- *
- * Example:
- *
- * <pre><code>
- *
- *     @FormGroupTarget()
- *     @FormGroupTarget("validatedSupplier")
- *     class SupplierRequest {
- *
- *         @FormControlTarget()
- *         @FormControlTarget(Validators.required, "validatedSupplier")
- *         public name: string = '';
- *
- *         @FormControlTarget()
- *         @FormControlTarget(Validators.required, "validatedSupplier")
- *         public address: string = '';
- *     }
- *
- *     @FormGroupTarget()
- *     @FormGroupValidators(Validators.email)
- *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
- *
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators(Validators.requiredTrue, "editForm")
- *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
- *     class InvoiceRequest {
- *
- *       @FormControlTarget(Validators.required)
- *       @FormControlTarget(Validators.minLength(3), "editForm")
- *       @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
- *       @FormControlAsyncValidators(ctrl => of({ notOk: ctrl.state != 'VALID'}), "editForm")
- *       public num: string = '001';
- *
- *       constructor(
- *           @FormControlTarget([], "editForm")
- *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
- *           public date: Date = new Date(),
- *
- *           @NestedFormGroup(SupplierRequest, "validatedSupplier")
- *           public supplier: SupplierRequest = new SupplierRequest()
- *       ) { }
- *     }
- *  </code></pre>
- *
- *  In the previous example we have nested the <strong>validatedSupplier</strong>
- *  form group to the default form group of <strong>InvoiceRequest</strong>. We can choose to nest it
- *  to <strong>editForm</strong> or to all of them
- *
- *  Example:
- *
- * <pre><code>
- *
- *     @FormGroupTarget()
- *     @FormGroupTarget("validatedSupplier")
- *     class SupplierRequest {
- *
- *         @FormControlTarget()
- *         @FormControlTarget(Validators.required, "validatedSupplier")
- *         public name: string = '';
- *
- *         @FormControlTarget()
- *         @FormControlTarget(Validators.required, "validatedSupplier")
- *         public address: string = '';
- *     }
- *
- *     @FormGroupTarget()
- *     @FormGroupValidators(Validators.email)
- *     @FormGroupAsyncValidators(ctrl => of({ value: ctrl.value}))
- *
- *     @FormGroupTarget("editForm")
- *     @FormGroupValidators(Validators.requiredTrue, "editForm")
- *     @FormGroupAsyncValidators(ctrl => of({ empty: !ctrl.value}))
- *     class InvoiceRequest {
- *
- *       @FormControlTarget(Validators.required)
- *       @FormControlTarget(Validators.minLength(3), "editForm")
- *       @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
- *       @FormControlAsyncValidators(ctrl => of({ notOk: ctrl.state != 'VALID'}), "editForm")
- *       public num: string = '001';
- *
- *       constructor(
- *           @FormControlTarget([], "editForm")
- *           @FormControlAsyncValidators(ctrl => of({ ok: ctrl.state == 'VALID'}))
- *           public date: Date = new Date(),
- *
- *           @NestedFormGroup(SupplierRequest, "validatedSupplier", [DEFAULT_GROUP, "editForm"])
- *           public supplier: SupplierRequest = new SupplierRequest()
- *       ) { }
- *     }
- *  </code></pre>
- *
- * @param sourceType The source type that is previously defining a form group, e.g. <strong>SupplierRequest</strong>
- * @param sourceFormId Optional form id of the nested type, if it defines more than one form group
- * @param targetFormId {FormIdType} The target form id(s) which needs the nesting
- * @constructor
+ * The object schema of a form group, adding the
+ * schemas of its nested form groups to <strong>definitions</strong>.
  */
-export function NestedFormGroup(sourceType: any, sourceFormId: string | undefined = undefined, targetFormId: FormIdType = undefined) {
-    return (target: any, propName: string, descriptor: any = null) => {
-        const type = target.constructor.name == Function.name
-            ? target
-            : target.constructor;
+function toObjectSchema(type: any,
+                        formId: string,
+                        definitions: { [key: string]: JsonSchema },
+                        refs: Map<any, { [formId: string]: string }>): JsonSchema {
+    const metadata = resolveMetadata(type, formId);
+    if (!metadata) {
+        throw new Error(`No ${describeFormId(formId)} is defined for ${type.name}`);
+    }
 
-        if (descriptor != undefined) {
-            propName = Object.keys(new target())[descriptor];
-        }
+    const defaults = createInstance(type);
+    const properties: { [propName: string]: JsonSchema } = {};
+    const required: string[] = [];
 
-        initializeMetadata(type, targetFormId);
+    Object.keys(metadata.controls).forEach(propName => {
+        const control = metadata.controls[propName];
+        let property: JsonSchema;
 
-        getFormGroups(type, targetFormId).forEach(formGroup => {
-            let nestedFormGroup = (getFormGroups(sourceType, sourceFormId) || [])[0];
-            if (nestedFormGroup) {
-                formGroup.addControl(propName, nestedFormGroup);
+        if (control.nested) {
+            property = {$ref: toSchemaRef(resolveSourceType(control.nested.sourceType), control.nested.sourceFormId, definitions, refs)};
+        } else if (control.array) {
+            const items = control.array.sourceType
+                ? {$ref: toSchemaRef(resolveSourceType(control.array.sourceType), control.array.sourceFormId, definitions, refs)}
+                : toValueSchema(undefined, toControlDefinition(control.array.itemValidatorsOrOptions ?? null));
+
+            property = {type: 'array', items};
+            addValidatorKeywords(property, {
+                validators: control.array.validators ? toArray(control.array.validators) : [],
+                asyncValidators: control.array.asyncValidators ? toArray(control.array.asyncValidators) : []
+            });
+            if (control.array.minLength != undefined) {
+                property.minItems = control.array.minLength;
             }
-        });
+            if (control.array.maxLength != undefined) {
+                property.maxItems = control.array.maxLength;
+            }
+        } else {
+            property = toValueSchema(defaults[propName], {});
+        }
+
+        addConstraintKeywords(property, control.constraints);
+        addValidatorKeywords(property, control);
+
+        properties[propName] = property;
+        if (control.constraints.required || control.constraints.requiredTrue
+            || control.validators.some(v => v === Validators.required || v === Validators.requiredTrue)) {
+            required.push(propName);
+        }
+    });
+
+    const schema: JsonSchema = {title: type.name, type: 'object', properties};
+    if (required.length > 0) {
+        schema.required = required;
     }
+
+    addValidatorKeywords(schema, metadata);
+
+    return schema;
 }
 
 /**
- * This function returns a FormGroup (in particular an
- * enhanced <strong>ModelFormGroup</strong> which <strong>value</strong>
- * property will be of a generic type supplied) based on the decorators
- * upon a class.
- *
- * Example:
- *
- * <pre><code>
- *     ngOnInit(): void {
- *         const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
- *         const invoice: InvoiceRequest = formGroup.value;
- *     }
- * </code></pre>
- *
- * @param type Any given type e.g. InvoiceRequest
- * @param formId {FormIdType}
+ * The <strong>$defs</strong> reference of a nested form group,
+ * describing it the first time it is referenced.
+ */
+function toSchemaRef(type: any,
+                     sourceFormId: string | undefined,
+                     definitions: { [key: string]: JsonSchema },
+                     refs: Map<any, { [formId: string]: string }>): string {
+    const formId = normalizeFormId(sourceFormId)[0];
+    const known = refs.get(type)?.[formId];
+    if (known) {
+        return known;
+    }
+
+    const name = formId === DEFAULT_GROUP ? type.name : `${type.name}.${formId}`;
+    let key = name;
+    for (let i = 2; definitions[key]; i++) {
+        key = `${name}${i}`;
+    }
+
+    const ref = `#/$defs/${key}`;
+    refs.set(type, {...refs.get(type), [formId]: ref});
+    definitions[key] = {};
+    definitions[key] = toObjectSchema(type, formId, definitions, refs);
+
+    return ref;
+}
+
+/**
+ * The schema of a plain form control, typed after its default value.
  */
-export function toFormGroup<T>(type: any, formId: string | null = null): ModelFormGroup<T> {
-    const f = formId ? formId : type.name;
-    return METADATA[type][f];
+function toValueSchema(defaultValue: any, definition: Partial<FormControlMetadata>): JsonSchema {
+    const schema: JsonSchema = {};
+
+    if (defaultValue instanceof Date) {
+        schema.type = 'string';
+        schema.format = 'date-time';
+    } else if (['string', 'number', 'boolean'].includes(typeof defaultValue)) {
+        schema.type = typeof defaultValue;
+    }
+
+    addValidatorKeywords(schema, definition);
+
+    return schema;
 }
 
-export function toFormGroups<T>(t: any, formIds: string[] = []): ModelFormGroup<T>[] {
-    if (formIds.length > 0) {
-        return formIds.map(f => METADATA[t][f]);
+function addConstraintKeywords(schema: JsonSchema, constraints: FormControlConstraints) {
+    const isArray = schema.type === 'array';
+
+    if (constraints.requiredTrue) {
+        schema.const = true;
+    }
+    if (constraints.email) {
+        schema.format = 'email';
+    }
+    if (constraints.min != undefined) {
+        schema.minimum = constraints.min;
+    }
+    if (constraints.max != undefined) {
+        schema.maximum = constraints.max;
+    }
+    if (constraints.minLength != undefined) {
+        schema[isArray ? 'minItems' : 'minLength'] = constraints.minLength;
+    }
+    if (constraints.maxLength != undefined) {
+        schema[isArray ? 'maxItems' : 'maxLength'] = constraints.maxLength;
+    }
+    if (constraints.pattern != undefined) {
+        const pattern = constraints.pattern;
+        // Validators.pattern() anchors string patterns itself
+        schema.pattern = typeof pattern === 'string'
+            ? `${pattern.startsWith('^') ? '' : '^'}${pattern}${pattern.endsWith('$') ? '' : '$'}`
+            : pattern.source;
     }
+}
+
+/**
+ * Adds the keywords of the built-in validators which can be told
+ * apart, and lists the remaining ones as <strong>x-unmappedValidators</strong>.
+ */
+function addValidatorKeywords(schema: JsonSchema, definition: Partial<FormControlMetadata>) {
+    const unmapped: string[] = [];
+
+    (definition.validators || []).forEach((validator, index) => {
+        if (validator === Validators.requiredTrue) {
+            schema.const = true;
+        } else if (validator === Validators.email) {
+            schema.format = 'email';
+        } else if (validator !== Validators.required && validator !== Validators.nullValidator) {
+            unmapped.push(describeValidator(validator, `validator#${index + 1}`));
+        }
+    });
+
+    unmapped.push(...(definition.asyncValidators || [])
+        .map((validator, index) => describeValidator(validator, `asyncValidator#${index + 1}`)));
+    unmapped.push(...(definition.crossFieldRules || []).map(rule => `${rule.rule}(${rule.field})`));
+
+    if (unmapped.length > 0) {
+        schema['x-unmappedValidators'] = unmapped;
+    }
+}
+
+/**
+ * The name of a validator function. The closures of parameterized
+ * validators, e.g. Validators.minLength(3), have none, so they are
+ * told by their position and pointed to the constraint decorators.
+ */
+function describeValidator(validator: ValidatorFn | AsyncValidatorFn, position: string): string {
+    return validator.name
+        || `${position} (use a constraint decorator such as @MinLength or @Pattern for a mappable constraint)`;
+}
+
+/**
+ * The constraints and validators of named validators such as
+ * <strong>"minLength:5"</strong> (@see registerValidator).
+ */
+function toNamedDefinition(names: string[], where: string): Partial<FormControlMetadata> {
+    const definition = {constraints: {} as FormControlConstraints, validators: [] as ValidatorFn[]};
+
+    names.forEach(name => {
+        const separator = name.indexOf(':');
+        const key = separator < 0 ? name : name.substring(0, separator);
+        const argument = separator < 0 ? undefined : name.substring(separator + 1);
+
+        if (!BUILT_IN_VALIDATORS.includes(key)) {
+            const factory = VALIDATOR_REGISTRY.get(key);
+            if (!factory) {
+                throw new Error(`Unknown validator "${key}" for ${where}, it is neither built-in `
+                    + `(${BUILT_IN_VALIDATORS.join(', ')}) nor registered with registerValidator()`);
+            }
+
+            definition.validators.push(factory(argument));
+            return;
+        }
+
+        // an empty argument would otherwise be taken as 0, or as a pattern matching anything
+        const given = argument?.trim() ? argument : undefined;
+        const value = ['min', 'max', 'minLength', 'maxLength'].includes(key)
+            ? Number(given)
+            : key === 'pattern' ? given : true;
+        if (value === undefined || Number.isNaN(value)) {
+            throw new Error(`Validator "${name}" for ${where} is missing a valid argument, e.g. "${key}:5"`);
+        }
 
-    return METADATA[t];
+        mergeKeys(definition.constraints, {[key]: value}, () =>
+            new Error(`Conflicting "${key}" validators for ${where}`));
+    });
+
+    return definition;
+}
+
+/**
+ * Named validators as plain validator functions,
+ * for form groups and form arrays.
+ */
+function toNamedValidators(names: string[], where: string): ValidatorFn[] {
+    const definition = toNamedDefinition(names, where);
+
+    return [...constraintValidators(definition.constraints!), ...definition.validators!];
 }
 
-function getFormGroups(target: any, formId: FormIdType): FormGroup[] {
-    return normalizeFormId(target, formId).map(f => METADATA[target][f]);
+function describeFormId(formId: string): string {
+    return formId === DEFAULT_GROUP ? 'default form group' : `form group "${formId}"`;
 }
 
-function normalizeFormId(type: any, formId: FormIdType = undefined): string[] {
-    const forms = !!formId ? (Array.isArray(formId) ? formId : [formId]) : [type.name];
+function toArray<V>(value: V | V[]): V[] {
+    return Array.isArray(value) ? value : [value];
+}
 
-    return forms.map(f => f === DEFAULT_GROUP ? type.name : f);
+function normalizeFormId(formId: FormIdType = undefined): string[] {
+    return !!formId ? (Array.isArray(formId) ? formId : [formId]) : [DEFAULT_GROUP];
 }
 
 function initializeMetadata(target: any, formId: FormIdType = undefined) {
-    if (!METADATA[target]) {
-        METADATA[target] = {}
+    if (!METADATA.has(target)) {
+        METADATA.set(target, {});
     }
 
-    formId = normalizeFormId(target, formId);
+    const formGroups = METADATA.get(target)!;
 
-    formId.forEach(f => {
-        if (!METADATA[target][f]) {
-            METADATA[target][f] = new FormGroup({})
+    normalizeFormId(formId).forEach(f => {
+        if (!formGroups[f]) {
+            formGroups[f] = {
+                validators: [],
+                asyncValidators: [],
+                controls: {},
+                excluded: [],
+                draft: null
+            } as FormGroupMetadata
         }
     })
 
 }
-
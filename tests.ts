@@ -2,16 +2,84 @@ import test from "test";
 import * as Assert from 'node:assert';
 import "@angular/compiler";
 import {
+    applyServerErrors,
+    ClassValidatorMetadata,
+    clearDraft,
+    collectErrors,
+    DateAfter,
+    DEFAULT_GROUP,
+    defineForm,
+    DraftStorages,
+    Email,
+    EmptyAsNull,
+    EnabledIf,
+    ErrorMessages,
+    ExcludeFromDraft,
+    fillForm,
+    FormArrayTarget,
     FormControlAsyncValidators,
     FormControlTarget,
+    FormFactory,
     FormGroupAsyncValidators,
+    FormGroupExclude,
     FormGroupTarget,
     FormGroupValidators,
+    getChangedValues,
+    getDirtyPatch,
+    getFormMetadata,
+    importClassValidatorMetadata,
+    injectAsyncValidator,
+    injectValidator,
+    Lowercase,
+    MatchesField,
+    MaxLength,
+    Min,
+    MinLength,
+    ModelFormArray,
+    ModelFormGroup,
+    ModelTransform,
+    ModelTransforms,
     NestedFormGroup,
-    toFormGroup
+    ParamName,
+    Pattern,
+    PersistDraft,
+    persistForm,
+    registerErrorMessages,
+    registerValidator,
+    Required,
+    RequiredIf,
+    SingleControl,
+    toFormGroup,
+    toFormGroups,
+    toJsonSchema,
+    toModel,
+    ToNumber,
+    toSignalForm,
+    Trim,
+    UiField,
+    ValueTransform,
+    ValueTransforms,
+    withHistory
 } from "./index.js";
-import {AbstractControl, Validators} from "@angular/forms";
+import {
+    GENERATED_FIELD,
+    GeneratedDateInputDirective,
+    GeneratedFormComponent,
+    GeneratedInputComponent,
+    provideGeneratedFormInputs
+} from "./generated-form.js";
+import {AbstractControl, FormControl, FormGroup, ValidationErrors, Validators} from "@angular/forms";
 import {of} from "rxjs";
+import {
+    Component,
+    ElementRef,
+    EnvironmentInjector,
+    inject,
+    InjectionToken,
+    Injector,
+    Renderer2,
+    runInInjectionContext
+} from "@angular/core";
 
 
 test('Basic controls length equality', () => {
@@ -180,5 +248,1456 @@ test('FormGroup has a nested FormGroup', () => {
     }
 
     const primaryFormGroup = toFormGroup(LoginRequest);
-    Assert.equal(toFormGroup(ProfileRequest), primaryFormGroup.get('profile'), 'Profile field in FormGroup should be the same as the FormGroup for ProfileRequest')
+    Assert.ok(primaryFormGroup.get('profile') instanceof FormGroup, 'Profile field in FormGroup should be a FormGroup');
+    Assert.ok(!!primaryFormGroup.get('profile.birthday'), 'Profile FormGroup should have the controls of ProfileRequest');
+    Assert.notEqual(toFormGroup(ProfileRequest), primaryFormGroup.get('profile'), 'Profile field in FormGroup should be its own copy of the ProfileRequest FormGroup');
+});
+
+test('Each toFormGroup call builds a fresh FormGroup', () => {
+
+    class ProfileRequest {
+        @FormControlTarget()
+        birthday: Date = new Date();
+    }
+
+    @FormGroupTarget()
+    @FormGroupValidators(Validators.required)
+    class LoginRequest {
+
+        @FormControlTarget(Validators.required)
+        username: string = 'john';
+
+        @NestedFormGroup(ProfileRequest)
+        profile: ProfileRequest = new ProfileRequest();
+    }
+
+    const first = toFormGroup<LoginRequest>(LoginRequest);
+    const second = toFormGroup<LoginRequest>(LoginRequest);
+
+    Assert.notEqual(first, second, 'Two calls should not return the same FormGroup');
+    Assert.equal('john', first.value?.username, 'Default value should be seeded from the class');
+
+    first.get('username')?.setValue('jane');
+    first.get('username')?.markAsDirty();
+    Assert.equal('john', second.get('username')?.value, 'Values should not be shared between form groups');
+    Assert.equal(false, second.dirty, 'Dirty state should not be shared between form groups');
+    Assert.notEqual(first.get('profile'), second.get('profile'), 'Nested form groups should not be shared');
+    Assert.ok(second.hasValidator(Validators.required), 'Group validators should be applied to every instance');
+});
+
+test('toFormGroups builds all form groups of a type', () => {
+
+    @FormGroupTarget()
+    @FormGroupTarget("secondary")
+    class LoginRequest {
+
+        @FormControlTarget([], [DEFAULT_GROUP, "secondary"])
+        username: string = '';
+    }
+
+    Assert.equal(2, toFormGroups(LoginRequest).length, 'All form groups should be built');
+    Assert.equal(1, toFormGroups(LoginRequest, ["secondary"]).length, 'Only the requested form groups should be built');
+});
+
+test('FormArray of primitive controls', () => {
+
+    class PostRequest {
+
+        @FormArrayTarget({itemValidatorsOrOptions: Validators.required, maxLength: 2})
+        tags: string[] = ['angular'];
+    }
+
+    const formGroup = toFormGroup<PostRequest>(PostRequest);
+    const tags = formGroup.get('tags') as ModelFormArray<string>;
+
+    Assert.ok(tags instanceof ModelFormArray, 'Tags should be a ModelFormArray');
+    Assert.deepEqual(['angular'], tags.value, 'Array should be seeded from the default value');
+    Assert.ok(tags.at(0).hasValidator(Validators.required), 'Elements should have the item validators');
+
+    tags.addItem('forms');
+    tags.addItem('rxjs');
+    Assert.ok(tags.hasError('maxlength'), 'Array should have a maxlength error when having too many elements');
+});
+
+test('FormArray of nested FormGroups', () => {
+
+    class InvoiceLineRequest {
+
+        @FormControlTarget(Validators.required)
+        product: string = '';
+
+        @FormControlTarget()
+        quantity: number = 1;
+    }
+
+    @FormGroupTarget()
+    @FormGroupTarget("secondary")
+    class InvoiceRequest {
+
+        @FormArrayTarget({sourceType: InvoiceLineRequest, minLength: 1}, [DEFAULT_GROUP, "secondary"])
+        lines: InvoiceLineRequest[] = [];
+    }
+
+    const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest, "secondary");
+    const lines = formGroup.get('lines') as ModelFormArray<InvoiceLineRequest>;
+
+    Assert.ok(lines.hasError('minlength'), 'Empty array should have a minlength error');
+
+    const line = lines.addItem({product: 'Laptop', quantity: 2});
+    Assert.ok(line instanceof FormGroup, 'Element should be a FormGroup');
+    Assert.ok(line.get('product')?.hasValidator(Validators.required), 'Element should be built from the nested metadata');
+    Assert.deepEqual([{product: 'Laptop', quantity: 2}], lines.value, 'Element should be seeded with the supplied value');
+    Assert.equal(false, lines.hasError('minlength'), 'Array should be valid once it has an element');
+    Assert.notEqual(lines.createItem(), lines.createItem(), 'Each element should be a fresh FormGroup');
+
+    class CategoryRequest {
+
+        @FormControlTarget()
+        name: string = '';
+
+        @FormArrayTarget()
+        children: string[] = [];
+    }
+
+    class CatalogRequest {
+
+        @FormArrayTarget({sourceType: CategoryRequest})
+        categories: CategoryRequest[] = [{name: 'Books', children: ['Novels']}];
+    }
+
+    const catalog = toFormGroup<CatalogRequest>(CatalogRequest);
+    Assert.deepEqual([{name: 'Books', children: ['Novels']}], catalog.value.categories, 'Default elements should fill their own form arrays');
+    catalog.controls.categories.addItem({name: 'Music', children: ['Jazz', 'Blues']});
+    Assert.deepEqual(['Jazz', 'Blues'], catalog.value.categories![1].children, 'Added elements should fill their own form arrays');
+});
+
+test('FormGroup is populated from an existing DTO', () => {
+
+    class InvoiceLineRequest {
+
+        @FormControlTarget()
+        product: string = '';
+    }
+
+    class SupplierRequest {
+
+        @FormControlTarget()
+        name: string = '';
+    }
+
+    @FormGroupTarget()
+    @FormGroupTarget("editForm")
+    class InvoiceRequest {
+
+        @FormControlTarget([], [DEFAULT_GROUP, "editForm"])
+        num: string = '';
+
+        @NestedFormGroup(SupplierRequest, undefined, [DEFAULT_GROUP, "editForm"])
+        supplier: SupplierRequest = new SupplierRequest();
+
+        @FormArrayTarget({sourceType: InvoiceLineRequest}, "editForm")
+        lines: InvoiceLineRequest[] = [];
+    }
+
+    const invoice = {
+        num: '002',
+        supplier: {name: 'ACME', vatNumber: 'BG123'},
+        lines: [{product: 'Laptop'}, {product: 'Mouse'}]
+    };
+
+    const editForm = toFormGroup<InvoiceRequest>(InvoiceRequest, "editForm", invoice);
+    Assert.deepEqual({num: '002', supplier: {name: 'ACME'}, lines: [{product: 'Laptop'}, {product: 'Mouse'}]}, editForm.value, 'Form should be populated including nested groups and arrays');
+    Assert.equal(true, editForm.pristine, 'Populated form should stay pristine');
+
+    const defaultForm = toFormGroup<InvoiceRequest>(InvoiceRequest);
+    Assert.deepEqual(['supplier.vatNumber', 'lines'], fillForm(defaultForm, invoice), 'Fields without a matching control should be reported');
+
+    Assert.deepEqual([], fillForm(editForm, {lines: [{product: 'Keyboard'}]}), 'All fields should be matched');
+    Assert.equal(1, (editForm.get('lines') as ModelFormArray<InvoiceLineRequest>).length, 'Array should shrink to the incoming number of elements');
+});
+
+test('FormGroup value is hydrated into a real instance', () => {
+
+    class SupplierRequest {
+
+        @FormControlTarget()
+        name: string = '';
+
+        describe(): string {
+            return `Supplier ${this.name}`;
+        }
+    }
+
+    class InvoiceLineRequest {
+
+        @FormControlTarget()
+        @ModelTransform(ModelTransforms.toNumber)
+        quantity: number = 0;
+    }
+
+    class InvoiceRequest {
+
+        @FormControlTarget()
+        @ModelTransform(ModelTransforms.toDate)
+        date: Date | null = null;
+
+        @NestedFormGroup(SupplierRequest)
+        supplier: SupplierRequest = new SupplierRequest();
+
+        @FormArrayTarget({sourceType: InvoiceLineRequest})
+        lines: InvoiceLineRequest[] = [];
+    }
+
+    const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest, null, {
+        date: '2023-06-15' as unknown as Date,
+        supplier: {name: 'ACME'} as SupplierRequest,
+        lines: [{quantity: '3' as unknown as number}]
+    });
+
+    const invoice = formGroup.toInstance();
+    Assert.ok(invoice instanceof InvoiceRequest, 'Model should be an instance of InvoiceRequest');
+    Assert.ok(invoice.date instanceof Date, 'Date field should be transformed to a Date');
+    Assert.equal('Supplier ACME', invoice.supplier.describe(), 'Nested group should be hydrated into a real instance');
+    Assert.ok(invoice.lines[0] instanceof InvoiceLineRequest, 'Array elements should be hydrated into real instances');
+    Assert.equal(3, invoice.lines[0].quantity, 'Array element field should be transformed to a number');
+    Assert.deepEqual(invoice, toModel<InvoiceRequest>(formGroup), 'toModel and toInstance should build the same model');
+});
+
+test('ModelFormGroup controls are strongly typed', () => {
+
+    class ProfileRequest {
+
+        @FormControlTarget()
+        nickname: string = 'johnny';
+    }
+
+    class LoginRequest {
+
+        @FormControlTarget()
+        username: string = 'john';
+
+        @NestedFormGroup(ProfileRequest)
+        profile: ProfileRequest = new ProfileRequest();
+
+        @FormArrayTarget()
+        tags: string[] = [];
+
+        @FormControlTarget()
+        roles: SingleControl<string[]> = [];
+
+        isAdmin(): boolean {
+            return this.username == 'admin';
+        }
+    }
+
+    const formGroup = toFormGroup<LoginRequest>(LoginRequest);
+
+    const roles: FormControl<string[]> = formGroup.controls.roles;
+    Assert.ok(roles instanceof FormControl, 'Single control fields should be typed as form controls');
+    // @ts-expect-error single control fields are not form arrays
+    Assert.equal(undefined, formGroup.controls.roles.addItem, 'Single control fields should have no form array methods');
+
+    const username: FormControl<string> = formGroup.controls.username;
+    const profile: ModelFormGroup<ProfileRequest> = formGroup.controls.profile;
+    const tags: ModelFormArray<string> = formGroup.controls.tags;
+    const nickname: string = profile.controls.nickname.value;
+
+    Assert.equal('john', username.value, 'Typed control should hold the default value');
+    Assert.equal('johnny', nickname, 'Typed nested control should hold the default value');
+    Assert.equal(0, tags.length, 'Typed array should be empty');
+
+    formGroup.setValue({username: 'jane', profile: {nickname: 'janie'}, tags: [], roles: ['admin']});
+    formGroup.patchValue({profile: {nickname: 'jan'}});
+
+    const raw: {username: string, profile: {nickname: string}, tags: string[], roles: string[]} = formGroup.getRawValue();
+    Assert.deepEqual({username: 'jane', profile: {nickname: 'jan'}, tags: [], roles: ['admin']}, raw, 'Typed raw value should reflect the changes');
+    Assert.equal('jan', formGroup.get('profile.nickname')?.value, 'Typed get should resolve nested paths');
+});
+
+test('Subclasses inherit the form groups of their ancestors', () => {
+
+    @FormGroupTarget()
+    @FormGroupTarget("editForm")
+    @FormGroupValidators(Validators.required, "editForm")
+    class CreateInvoiceRequest {
+
+        @FormControlTarget(Validators.required, [DEFAULT_GROUP, "editForm"])
+        num: string = '001';
+
+        @FormControlTarget([], [DEFAULT_GROUP, "editForm"])
+        note: string = '';
+    }
+
+    @FormGroupExclude("note", "editForm")
+    class UpdateInvoiceRequest extends CreateInvoiceRequest {
+
+        @FormControlTarget(Validators.required, [DEFAULT_GROUP, "editForm"])
+        id: number = 1;
+
+        @FormControlTarget(Validators.minLength(3), "editForm")
+        override num: string = '002';
+    }
+
+    const defaultForm = toFormGroup<UpdateInvoiceRequest>(UpdateInvoiceRequest);
+    Assert.deepEqual(['num', 'note', 'id'], Object.keys(defaultForm.controls), 'Default form should have inherited and own controls');
+    Assert.ok(defaultForm.get('num')?.hasValidator(Validators.required), 'Inherited control should keep its validators');
+    Assert.equal('002', defaultForm.get('num')?.value, 'Default value should come from the subclass');
+
+    const editForm = toFormGroup<UpdateInvoiceRequest>(UpdateInvoiceRequest, "editForm");
+    Assert.deepEqual(['num', 'id'], Object.keys(editForm.controls), 'Excluded control should be dropped from the edit form');
+    Assert.equal(false, editForm.get('num')?.hasValidator(Validators.required), 'Redeclared control should override the inherited one');
+    Assert.ok(editForm.hasValidator(Validators.required), 'Group validators should be inherited');
+
+    Assert.equal(2, toFormGroups(UpdateInvoiceRequest).length, 'Subclass should have all inherited form groups');
+
+    class CreateSupplierRequest {
+
+        @Required()
+        @MaxLength(3)
+        name: string = '';
+    }
+
+    class UpdateSupplierRequest extends CreateSupplierRequest {
+
+        @UiField({label: 'Supplier name'})
+        @MinLength(2)
+        override name: string = '';
+    }
+
+    const supplierControl = getFormMetadata(UpdateSupplierRequest)[DEFAULT_GROUP].controls['name'];
+    Assert.deepEqual({required: true, maxLength: 3, minLength: 2}, supplierControl.constraints, 'Decorators of the subclass should merge into the inherited control');
+    Assert.equal('Supplier name', supplierControl.ui.label, 'Inherited control should get the settings of the subclass');
+    const supplierForm = toFormGroup<UpdateSupplierRequest>(UpdateSupplierRequest, null, {name: 'toolong'});
+    Assert.ok(supplierForm.controls.name.hasError('maxlength'), 'Inherited constraints should still be validated');
+
+    Assert.throws(() => {
+        class RenameSupplierRequest extends CreateSupplierRequest {
+            @MaxLength(5)
+            override name: string = '';
+        }
+
+        return getFormMetadata(RenameSupplierRequest);
+    }, /Conflicting "maxLength" constraints for RenameSupplierRequest.name and the inherited field/, 'Contradicting inherited constraints should be reported');
+    Assert.deepEqual(['num', 'note'], Object.keys(toFormGroup(CreateInvoiceRequest, "editForm").controls), 'Parent form should not be affected');
+});
+
+test('Classes with identical source do not share metadata', () => {
+
+    const createType = () => {
+        class LoginRequest {
+
+            @FormControlTarget()
+            username: string = '';
+        }
+
+        return LoginRequest;
+    };
+
+    const first = createType();
+    const second = createType();
+    FormGroupValidators(Validators.required)(first);
+
+    Assert.ok(toFormGroup(first).hasValidator(Validators.required), 'First type should have the group validator');
+    Assert.equal(false, toFormGroup(second).hasValidator(Validators.required), 'Second type should not have the validator of the first one');
+    Assert.equal(1, Object.keys(toFormGroup(second).controls).length, 'Second type should have its own controls');
+});
+
+test('Form metadata can be introspected', () => {
+
+    const asyncValidator = (ctrl: AbstractControl) => of({isValid: ctrl.valid});
+
+    class ProfileRequest {
+
+        @FormControlTarget()
+        nickname: string = '';
+    }
+
+    @FormGroupTarget()
+    @FormGroupTarget("secondary")
+    @FormGroupValidators(Validators.required, "secondary")
+    class LoginRequest {
+
+        @FormControlTarget(Validators.required, [DEFAULT_GROUP, "secondary"])
+        @FormControlAsyncValidators(asyncValidator)
+        username: string = '';
+
+        @NestedFormGroup(ProfileRequest, undefined, "secondary")
+        profile: ProfileRequest = new ProfileRequest();
+    }
+
+    const metadata = getFormMetadata(LoginRequest);
+
+    Assert.deepEqual([DEFAULT_GROUP, 'secondary'], Object.keys(metadata), 'All form ids should be listed');
+    Assert.deepEqual(['username'], Object.keys(metadata[DEFAULT_GROUP].controls), 'Default form controls should be listed');
+    Assert.deepEqual([Validators.required], metadata[DEFAULT_GROUP].controls['username'].validators, 'Control validators should be listed');
+    Assert.deepEqual([asyncValidator], metadata[DEFAULT_GROUP].controls['username'].asyncValidators, 'Control async validators should be listed');
+    Assert.deepEqual([Validators.required], metadata['secondary'].validators, 'Group validators should be listed');
+    Assert.equal(ProfileRequest, metadata['secondary'].controls['profile'].nested?.sourceType, 'Nesting should be listed');
+
+    Assert.throws(() => Object.assign(metadata[DEFAULT_GROUP].controls, {password: null}), 'Metadata should be read-only');
+    Assert.ok(Object.isFrozen(metadata[DEFAULT_GROUP].controls['username'].asyncValidators), 'Metadata arrays should be read-only');
+});
+
+test('Constructor parameters are decorated without instantiating the class', () => {
+
+    let instances = 0;
+
+    class SupplierRequest {
+
+        @FormControlTarget()
+        name: string = '';
+    }
+
+    class InvoiceRequest {
+
+        @FormControlTarget()
+        num: string = '001';
+
+        constructor(
+            public supplierName: string,
+            @FormControlTarget(Validators.required)
+            public date: Date = new Date(2023, 0, 1),
+            @NestedFormGroup(SupplierRequest)
+            public supplier: SupplierRequest = new SupplierRequest(),
+            @FormControlTarget()
+            @ParamName('notes')
+            {text}: { text: string } = {text: 'none'}
+        ) {
+            instances++;
+            this.notes = text;
+        }
+
+        notes: string;
+    }
+
+    Assert.equal(0, instances, 'Decorating should not instantiate the class');
+
+    const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+    Assert.deepEqual(['num', 'date', 'supplier', 'notes'].sort(), Object.keys(formGroup.controls).sort(), 'Parameter names should be resolved from the constructor');
+    Assert.ok(formGroup.get('date')?.hasValidator(Validators.required), 'Parameter control should have its validators');
+    Assert.equal(new Date(2023, 0, 1).getTime(), formGroup.get('date')?.value.getTime(), 'Default value should be read when the form is built');
+    Assert.equal('none', formGroup.get('notes')?.value, 'Explicitly named parameter should be resolved');
+});
+
+test('Default values are skipped when the constructor cannot run without arguments', () => {
+
+    class LoginRequest {
+
+        constructor(
+            @FormControlTarget()
+            public username: string,
+            @FormControlTarget()
+            public password: string
+        ) {
+            if (!username) {
+                throw new Error('Username is required');
+            }
+        }
+    }
+
+    const formGroup = toFormGroup<LoginRequest>(LoginRequest);
+    Assert.deepEqual({username: null, password: null}, formGroup.value, 'Controls should be built without default values');
+});
+
+test('Field decorators compose regardless of their order', () => {
+
+    const asyncValidator = (ctrl: AbstractControl) => of({isValid: ctrl.valid});
+
+    class LoginRequest {
+
+        @FormControlAsyncValidators(asyncValidator)
+        @FormControlTarget({nonNullable: true, updateOn: 'blur', validators: Validators.required})
+        @FormControlTarget(Validators.email)
+        username: string = 'john';
+
+        @FormControlTarget({nonNullable: true, updateOn: 'blur', validators: Validators.required})
+        @FormControlAsyncValidators(asyncValidator)
+        @FormControlTarget(Validators.email)
+        password: string = 'secret';
+    }
+
+    const formGroup = toFormGroup<LoginRequest>(LoginRequest);
+
+    for (const name of ['username', 'password']) {
+        const control = formGroup.get(name)!;
+        Assert.ok(control.hasValidator(Validators.required) && control.hasValidator(Validators.email), `${name} should have all validators`);
+        Assert.ok(control.hasAsyncValidator(asyncValidator), `${name} should keep its async validator`);
+        Assert.equal('blur', control.updateOn, `${name} should keep its updateOn option`);
+
+        control.reset();
+        Assert.notEqual(null, control.value, `${name} should keep its nonNullable option`);
+    }
+});
+
+test('Conflicting field decorators are reported', () => {
+
+    class ProfileRequest {
+
+        @FormControlTarget()
+        nickname: string = '';
+    }
+
+    Assert.throws(() => {
+        class LoginRequest {
+
+            @FormControlTarget({updateOn: 'blur'})
+            @FormControlTarget({updateOn: 'submit'})
+            username: string = '';
+        }
+    }, /Conflicting "updateOn" options/, 'Different updateOn options should be reported');
+
+    Assert.throws(() => {
+        class InvoiceRequest {
+
+            @UiField({options: [{value: 'EUR', label: 'Euro'}]})
+            @UiField({options: [{value: 'BGN', label: 'Lev'}]})
+            currency: string = 'EUR';
+        }
+    }, /Conflicting "options" UI settings/, 'Different UI option lists should be reported');
+
+    class OrderRequest {
+
+        @UiField({options: [{value: 'EUR', label: 'Euro'}]})
+        @UiField({options: [{value: 'EUR', label: 'Euro'}]})
+        currency: string = 'EUR';
+    }
+
+    Assert.deepEqual([{value: 'EUR', label: 'Euro'}], getFormMetadata(OrderRequest)[DEFAULT_GROUP].controls['currency'].ui.options,
+        'Equal UI option lists should not be reported');
+
+    Assert.throws(() => {
+        class LoginRequest {
+
+            @NestedFormGroup(ProfileRequest)
+            @FormArrayTarget({sourceType: ProfileRequest})
+            profile: ProfileRequest = new ProfileRequest();
+        }
+    }, /both a nested form group and a form array/, 'Nesting a field both as a group and an array should be reported');
+
+    Assert.throws(() => {
+        class LoginRequest {
+
+            @FormControlTarget({nonNullable: true})
+            @NestedFormGroup(ProfileRequest)
+            profile: ProfileRequest = new ProfileRequest();
+        }
+    }, /cannot be applied to a nested form group/, 'FormControl options on a nested group should be reported');
+});
+
+test('Validation decorators add built-in validators and constraints', () => {
+
+    @FormGroupTarget()
+    @FormGroupTarget("editForm")
+    class RegisterRequest {
+
+        @Required([DEFAULT_GROUP, "editForm"])
+        @MinLength(3)
+        @MaxLength(20, [DEFAULT_GROUP, "editForm"])
+        @Pattern(/^[a-z]+$/)
+        username: string = '';
+
+        @FormControlTarget(Validators.required)
+        @Email()
+        email: string = 'invalid';
+    }
+
+    const formGroup = toFormGroup<RegisterRequest>(RegisterRequest);
+    Assert.ok(formGroup.get('username')?.hasError('required'), 'Username should be required');
+
+    formGroup.get('username')?.setValue('AB');
+    Assert.ok(formGroup.get('username')?.hasError('minlength'), 'Username should have a minimum length');
+    Assert.ok(formGroup.get('username')?.hasError('pattern'), 'Username should match the pattern');
+    Assert.ok(formGroup.get('email')?.hasError('email'), 'Email validator should stack with FormControlTarget');
+
+    const editForm = toFormGroup<RegisterRequest>(RegisterRequest, "editForm");
+    editForm.get('username')?.setValue('AB');
+    Assert.equal(true, editForm.get('username')?.valid, 'Validation decorators should be scoped by formId');
+
+    const metadata = getFormMetadata(RegisterRequest);
+    Assert.deepEqual({required: true, minLength: 3, maxLength: 20, pattern: /^[a-z]+$/}, metadata[DEFAULT_GROUP].controls['username'].constraints, 'Constraints should be listed in metadata');
+    Assert.equal(20, metadata['editForm'].controls['username'].constraints.maxLength, 'Constraint parameters should be readable per form');
+
+    Assert.throws(() => {
+        class LoginRequest {
+
+            @MaxLength(10)
+            @MaxLength(20)
+            username: string = '';
+        }
+    }, /Conflicting "maxLength" constraints/, 'Different constraint parameters should be reported');
+});
+
+test('Cross-field validators set errors on the dependent control', () => {
+
+    @FormGroupTarget()
+    @FormGroupTarget("editForm")
+    class RegisterRequest {
+
+        @FormControlTarget([], [DEFAULT_GROUP, "editForm"])
+        password: string = 'secret';
+
+        @MatchesField('password')
+        passwordConfirm: string = '';
+
+        @FormControlTarget([], [DEFAULT_GROUP, "editForm"])
+        isCompany: boolean = false;
+
+        @RequiredIf('isCompany', isCompany => isCompany === true, [DEFAULT_GROUP, "editForm"])
+        vatNumber: string = '';
+
+        @FormControlTarget()
+        startDate: string = '2023-01-10';
+
+        @DateAfter('startDate')
+        endDate: string = '2023-01-05';
+    }
+
+    const formGroup = toFormGroup<RegisterRequest>(RegisterRequest);
+    Assert.ok(formGroup.get('passwordConfirm')?.hasError('matchesField'), 'Mismatching field should have an error');
+    Assert.equal(null, formGroup.errors, 'Error should not be set on the form group');
+    Assert.equal(false, formGroup.valid, 'Form group should be invalid');
+
+    formGroup.get('passwordConfirm')?.setValue('secret');
+    Assert.equal(true, formGroup.get('passwordConfirm')?.valid, 'Matching field should be valid');
+    formGroup.get('password')?.setValue('changed');
+    Assert.ok(formGroup.get('passwordConfirm')?.hasError('matchesField'), 'Field should be re-validated when the referenced field changes');
+
+    Assert.equal(true, formGroup.get('vatNumber')?.valid, 'Conditionally required field should be valid when the condition does not hold');
+    formGroup.get('isCompany')?.setValue(true);
+    Assert.ok(formGroup.get('vatNumber')?.hasError('requiredIf'), 'Conditionally required field should be required when the condition holds');
+
+    Assert.ok(formGroup.get('endDate')?.hasError('dateAfter'), 'Earlier date should have an error');
+    formGroup.get('startDate')?.setValue('2023-01-01');
+    Assert.equal(true, formGroup.get('endDate')?.valid, 'Later date should be valid');
+
+    const editForm = toFormGroup<RegisterRequest>(RegisterRequest, "editForm");
+    Assert.equal(null, editForm.get('passwordConfirm'), 'Cross-field decorators should be scoped by formId');
+
+    class LoginRequest {
+
+        // @ts-expect-error the referenced field does not exist in LoginRequest
+        @MatchesField('password')
+        passwordConfirm: string = '';
+    }
+
+    Assert.throws(() => toFormGroup(LoginRequest), /refers to "password"/, 'Missing referenced control should be reported');
+
+    class ContactRequest {
+
+        @MatchesField('emailConfirm')
+        email: string = '';
+
+        @MatchesField('email')
+        emailConfirm: string = '';
+    }
+
+    const contactForm = toFormGroup<ContactRequest>(ContactRequest);
+    contactForm.controls.email.setValue('john@example.com');
+    Assert.ok(contactForm.controls.emailConfirm.hasError('matchesField'), 'Two-way rules should re-validate the other field');
+    Assert.equal(false, contactForm.valid, 'Form group status should follow two-way rules');
+    contactForm.controls.emailConfirm.setValue('john@example.com');
+    Assert.equal(true, contactForm.valid, 'Two-way rules should be satisfied once both fields match');
+});
+
+test('Conditional controls are enabled and disabled as values change', () => {
+
+    class AddressRequest {
+
+        @FormControlTarget()
+        country: string = 'BG';
+
+        @FormControlTarget()
+        @EnabledIf(address => address.country === 'US')
+        state: string = '';
+    }
+
+    class CustomerRequest {
+
+        @FormControlTarget()
+        accountType: string = 'personal';
+
+        @FormControlTarget(Validators.required)
+        @EnabledIf(customer => customer.accountType === 'business')
+        companyName: string = '';
+
+        @NestedFormGroup(AddressRequest)
+        @EnabledIf(customer => customer.accountType === 'business')
+        companyAddress: AddressRequest = new AddressRequest();
+    }
+
+    const formGroup = toFormGroup<CustomerRequest>(CustomerRequest);
+    Assert.equal(true, formGroup.get('companyName')?.disabled, 'Control should be disabled when the condition does not hold');
+    Assert.equal(true, formGroup.get('companyAddress')?.disabled, 'Nested group should be disabled when the condition does not hold');
+    Assert.equal(true, formGroup.valid, 'Disabled required control should not invalidate the form');
+    Assert.deepEqual({accountType: 'personal'}, formGroup.value, 'Disabled controls should be left out of value');
+    Assert.deepEqual(['accountType', 'companyName', 'companyAddress'], Object.keys(formGroup.getRawValue()), 'Disabled controls should be kept in the raw value');
+
+    formGroup.get('accountType')?.setValue('business');
+    Assert.equal(true, formGroup.get('companyName')?.enabled, 'Control should be enabled when the condition holds');
+    Assert.equal(true, formGroup.get('companyAddress.country')?.enabled, 'Nested group should be enabled when the condition holds');
+    Assert.equal(true, formGroup.get('companyAddress.state')?.disabled, 'Conditional control of the nested group should follow its own condition');
+    Assert.equal(false, formGroup.valid, 'Enabled required control should invalidate the form');
+
+    formGroup.get('companyAddress.country')?.setValue('US');
+    Assert.equal(true, formGroup.get('companyAddress.state')?.enabled, 'Conditional control of the nested group should be enabled by its own condition');
+});
+
+test('Class-validator metadata is imported as form groups', () => {
+
+    class SupplierRequest {
+        name: string = '';
+    }
+
+    class InvoiceRequest {
+        num: string = '001';
+        email: string = '';
+        supplier: SupplierRequest = new SupplierRequest();
+        lines: SupplierRequest[] = [];
+    }
+
+    const metadatas: ClassValidatorMetadata[] = [
+        {target: SupplierRequest, propertyName: 'name', type: 'customValidation', name: 'isNotEmpty', constraints: []},
+        {target: InvoiceRequest, propertyName: 'num', type: 'customValidation', name: 'isNotEmpty', constraints: []},
+        {target: InvoiceRequest, propertyName: 'num', type: 'customValidation', name: 'isLength', constraints: [3, 10], groups: ['editForm']},
+        {target: InvoiceRequest, propertyName: 'email', type: 'customValidation', name: 'isEmail', constraints: []},
+        {target: InvoiceRequest, propertyName: 'email', type: 'customValidation', name: 'isString', constraints: []},
+        {target: InvoiceRequest, propertyName: 'supplier', type: 'nestedValidation', constraints: [], always: true},
+        {target: InvoiceRequest, propertyName: 'lines', type: 'nestedValidation', constraints: [], each: true},
+        {target: InvoiceRequest, propertyName: 'lines', type: 'customValidation', name: 'arrayMinSize', constraints: [1]}
+    ];
+    const storage = {
+        getTargetValidationMetadatas: (target: Function) => metadatas.filter(m => m.target === target)
+    };
+
+    const unmapped = importClassValidatorMetadata(InvoiceRequest, storage, {
+        resolveType: (type, propName) => propName === 'supplier' || propName === 'lines' ? SupplierRequest : undefined
+    });
+    Assert.deepEqual(['InvoiceRequest.email: isString'], unmapped, 'Validators without an Angular counterpart should be reported');
+
+    const metadata = getFormMetadata(InvoiceRequest);
+    Assert.deepEqual([DEFAULT_GROUP, 'editForm'], Object.keys(metadata), 'Validation groups should become form ids');
+    Assert.deepEqual({minLength: 3, maxLength: 10}, metadata['editForm'].controls['num'].constraints, 'Grouped validators should go to their form group');
+    Assert.deepEqual(['num', 'supplier'], Object.keys(metadata['editForm'].controls), 'Only grouped and always validated fields should be in the form group');
+
+    const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+    Assert.equal(true, formGroup.get('email')?.hasValidator(Validators.email), 'Email constraint should be applied');
+    Assert.equal(true, formGroup.get('supplier.name')?.hasValidator(Validators.required), 'Nested type should be imported as well');
+    Assert.ok(formGroup.get('lines') instanceof ModelFormArray, 'Nested validation of each element should become a form array');
+    Assert.ok(formGroup.get('lines')?.hasError('minlength'), 'Array size should be applied to the form array');
+
+    Assert.deepEqual([], importClassValidatorMetadata(InvoiceRequest, storage), 'Types should be imported only once');
+});
+
+test('JSON Schema is generated from the form metadata', () => {
+
+    class SupplierRequest {
+
+        @Required()
+        @FormControlTarget()
+        @FormControlTarget(Validators.required, "validatedSupplier")
+        name: string = '';
+    }
+
+    class LineRequest {
+
+        @FormControlTarget(Validators.min(1))
+        quantity: number = 1;
+    }
+
+    const noSpaces = (control: AbstractControl) => /\s/.test(control.value) ? {noSpaces: true} : null;
+
+    class InvoiceRequest {
+
+        @Required("editForm")
+        @MinLength(3, "editForm")
+        @Pattern('[0-9]+', "editForm")
+        @FormControlTarget(noSpaces, "editForm")
+        num: string = '001';
+
+        @Email("editForm")
+        @FormControlTarget()
+        email: string = '';
+
+        @Min(0, "editForm")
+        @FormControlTarget(Validators.requiredTrue)
+        total: number = 0;
+
+        @FormControlTarget([], "editForm")
+        date: Date = new Date();
+
+        @NestedFormGroup(SupplierRequest, "validatedSupplier", "editForm")
+        supplier: SupplierRequest = new SupplierRequest();
+
+        @FormArrayTarget({sourceType: LineRequest, minLength: 1}, "editForm")
+        lines: LineRequest[] = [];
+    }
+
+    const schema = toJsonSchema(InvoiceRequest, "editForm");
+    Assert.equal('https://json-schema.org/draft/2020-12/schema', schema.$schema, 'Schema should declare draft 2020-12');
+    Assert.deepEqual(['num'], schema.required, 'Required controls should be listed');
+    Assert.deepEqual({type: 'string', minLength: 3, pattern: '^[0-9]+$', 'x-unmappedValidators': ['noSpaces']},
+        schema.properties.num, 'Constraints should become keywords and custom validators should be listed');
+    Assert.deepEqual({type: 'string', format: 'email'}, schema.properties.email, 'Email constraint should become a format');
+    Assert.deepEqual({type: 'number', minimum: 0}, schema.properties.total, 'Min constraint should become minimum');
+    Assert.deepEqual({type: 'string', format: 'date-time'}, schema.properties.date, 'Dates should become date-time strings');
+    Assert.deepEqual({$ref: '#/$defs/SupplierRequest.validatedSupplier'}, schema.properties.supplier, 'Nested groups should be referenced');
+    Assert.deepEqual(['name'], schema.$defs['SupplierRequest.validatedSupplier'].required, 'Nested group should be described from its formId');
+    Assert.deepEqual({type: 'array', items: {$ref: '#/$defs/LineRequest'}, minItems: 1}, schema.properties.lines, 'Form arrays should reference their elements');
+    Assert.deepEqual(['validator#1 (use a constraint decorator such as @MinLength or @Pattern for a mappable constraint)'],
+        schema.$defs['LineRequest'].properties.quantity['x-unmappedValidators'], 'Parameterized validators should be listed by position');
+
+    const defaultSchema = toJsonSchema(InvoiceRequest);
+    Assert.deepEqual(['email', 'total'], Object.keys(defaultSchema.properties), 'Schema should follow the formId');
+    Assert.deepEqual({type: 'number', const: true}, defaultSchema.properties.total, 'Required true should become a constant');
+});
+
+test('Forms are defined from a serializable definition', () => {
+    registerValidator('multipleOf', argument => control =>
+        control.value % Number(argument) === 0 ? null : {multipleOf: Number(argument)});
+
+    const InvoiceForm = defineForm({
+        name: 'InvoiceForm',
+        formIds: [DEFAULT_GROUP, 'editForm'],
+        fields: {
+            num: {value: '001', validators: {[DEFAULT_GROUP]: ['required'], editForm: ['required', 'minLength:5']}},
+            quantity: {value: 3, validators: ['multipleOf:2'], formIds: ['editForm']},
+            supplier: {nested: {name: 'SupplierForm', fields: {name: {validators: ['required']}}}},
+            tags: {value: ['a'], array: {itemValidators: ['maxLength:3'], maxLength: 5}}
+        }
+    });
+
+    const formGroup = toFormGroup<any>(InvoiceForm, 'editForm');
+    Assert.deepEqual({num: '001', quantity: 3, supplier: {name: null}, tags: ['a']}, formGroup.getRawValue(), 'Controls should be built with the default values');
+    Assert.ok(formGroup.get('num')?.hasError('minlength'), 'Built-in named validators should be applied per formId');
+    Assert.ok(formGroup.get('quantity')?.hasError('multipleOf'), 'Registered named validators should be applied');
+    Assert.ok(formGroup.get('supplier.name')?.hasError('required'), 'Nested definitions should become nested form groups');
+    Assert.ok(formGroup.get('tags') instanceof ModelFormArray, 'Array definitions should become form arrays');
+    Assert.equal(5, getFormMetadata(InvoiceForm)['editForm'].controls['num'].constraints.minLength, 'Built-in named validators should be introspectable');
+
+    const forms = toFormGroups<any>(InvoiceForm);
+    Assert.deepEqual(['num', 'supplier', 'tags'], Object.keys(forms[0].controls), 'Fields should be scoped by formId');
+    Assert.equal(InvoiceForm, toModel<any>(forms[0]).constructor, 'Model should be an instance of the generated type');
+
+    Assert.throws(() => defineForm({name: 'Broken', fields: {num: {validators: ['minLenght:5']}}}),
+        /Unknown validator "minLenght" for Broken.num/, 'Unknown validator names should be reported');
+    Assert.throws(() => defineForm({name: 'Broken', fields: {num: {validators: ['minLength']}}}),
+        /missing a valid argument/, 'Missing arguments should be reported');
+    Assert.throws(() => defineForm({name: 'Broken', fields: {num: {validators: ['min:']}}}),
+        /missing a valid argument/, 'Empty arguments should be reported');
+    Assert.throws(() => defineForm({name: 'Broken', fields: {num: {validators: ['maxLength: ']}}}),
+        /missing a valid argument/, 'Blank arguments should be reported');
+});
+
+test('Changed values and dirty patch are diffed against the initial values', () => {
+
+    class SupplierRequest {
+
+        @FormControlTarget()
+        name: string = '';
+
+        @FormControlTarget()
+        address: string = '';
+    }
+
+    class InvoiceRequest {
+
+        @FormControlTarget()
+        num: string = '001';
+
+        @FormControlTarget()
+        date: Date = new Date(2023, 0, 1);
+
+        @NestedFormGroup(SupplierRequest)
+        supplier: SupplierRequest = new SupplierRequest();
+
+        @FormArrayTarget()
+        tags: string[] = [];
+    }
+
+    const existing = new InvoiceRequest();
+    existing.supplier.name = 'ACME';
+    existing.tags = ['a', 'b'];
+
+    const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest, null, existing);
+    Assert.deepEqual({}, formGroup.getChangedValues(), 'Populated values should be the initial ones');
+
+    formGroup.controls.supplier.controls.address.setValue('Sofia');
+    formGroup.controls.date.setValue(new Date(2023, 0, 1));
+    Assert.deepEqual({supplier: {address: 'Sofia'}}, getChangedValues(formGroup), 'Only changed nested fields should be returned');
+
+    formGroup.controls.tags.addItem('c');
+    Assert.deepEqual(['a', 'b', 'c'], formGroup.getChangedValues().tags, 'Changed arrays should be returned as a whole');
+
+    formGroup.controls.num.setValue('002');
+    formGroup.controls.num.markAsDirty();
+    formGroup.controls.num.setValue('001');
+    Assert.deepEqual({num: '001'}, getDirtyPatch(formGroup), 'Dirty controls should be returned even if changed back');
+
+    formGroup.resetToInitial();
+    Assert.deepEqual({}, formGroup.getChangedValues(), 'Reset should restore the initial values');
+    Assert.deepEqual(['a', 'b'], formGroup.controls.tags.getRawValue(), 'Reset should resize form arrays');
+    Assert.equal(true, formGroup.pristine, 'Reset should mark the form group pristine');
+
+    Assert.throws(() => getChangedValues(new FormGroup({})), /initial value is unknown/, 'Foreign form groups should be reported');
+});
+
+test('Validation errors are collected with paths and messages', () => {
+
+    class SupplierRequest {
+
+        @Required()
+        @ErrorMessages({required: 'Supplier name is required'})
+        @ErrorMessages({required: 'Name is required'}, "editForm")
+        name: string = '';
+    }
+
+    @FormGroupValidators(group => group.get('num')?.value === '000' ? {reservedNumber: true} : null)
+    class InvoiceRequest {
+
+        @MinLength(3)
+        @ErrorMessages({minlength: error => `Use ${error.requiredLength} characters`})
+        num: string = '00';
+
+        @FormControlTarget(control => /\s/.test(control.value) ? {noSpaces: true} : null)
+        code: string = 'A B';
+
+        @NestedFormGroup(SupplierRequest)
+        supplier: SupplierRequest = new SupplierRequest();
+
+        @FormArrayTarget({itemValidatorsOrOptions: Validators.required})
+        tags: string[] = ['a', ''];
+    }
+
+    registerErrorMessages({noSpaces: 'Spaces are not allowed'});
+
+    const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+    Assert.deepEqual([
+        {path: 'num', errorKey: 'minlength', errorValue: {requiredLength: 3, actualLength: 2}, message: 'Use 3 characters'},
+        {path: 'code', errorKey: 'noSpaces', errorValue: true, message: 'Spaces are not allowed'},
+        {path: 'supplier.name', errorKey: 'required', errorValue: true, message: 'Supplier name is required'},
+        {path: 'tags[1]', errorKey: 'required', errorValue: true, message: 'This field is required'}
+    ], collectErrors(formGroup), 'Errors should be collected from nested groups and arrays');
+
+    formGroup.patchValue({num: '000', code: 'AB', supplier: {name: 'ACME'}, tags: ['a', 'b']});
+    Assert.deepEqual([{path: '', errorKey: 'reservedNumber', errorValue: true, message: 'reservedNumber'}],
+        collectErrors(formGroup), 'Group errors should be collected, falling back to the error key');
+
+    Assert.equal('Name is required', getFormMetadata(SupplierRequest)['editForm'].controls['name'].errorMessages['required'],
+        'Messages should be scoped by formId');
+});
+
+test('Server errors are applied to the matching controls', () => {
+
+    class LineRequest {
+
+        @FormControlTarget()
+        product: string = '';
+    }
+
+    class InvoiceRequest {
+
+        @FormControlTarget()
+        num: string = '001';
+
+        @NestedFormGroup(LineRequest)
+        supplier: LineRequest = new LineRequest();
+
+        @FormArrayTarget({sourceType: LineRequest})
+        lines: LineRequest[] = [new LineRequest(), new LineRequest()];
+    }
+
+    const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+    const unmatched = applyServerErrors(formGroup, {errors: {'num': ['taken', 'too short'], 'lines[1].product': 'unknown', 'vat': 'invalid'}});
+    Assert.deepEqual(['vat'], unmatched, 'Unmatched paths should be returned');
+    Assert.deepEqual(['taken', 'too short'], formGroup.get('num')?.getError('server'), 'Messages should be set as the server error');
+    Assert.deepEqual(['unknown'], formGroup.get('lines.1.product')?.getError('server'), 'Bracket paths should be resolved through form arrays');
+    Assert.equal(null, formGroup.errors, 'Unmatched paths should not go to the group by default');
+    Assert.ok(collectErrors(formGroup).some(error => error.path === 'num' && error.message === 'taken too short'), 'Server errors should have a message');
+
+    formGroup.get('num')?.setValue('002');
+    Assert.equal(null, formGroup.get('num')?.errors, 'Server error should be cleared on the next value change');
+
+    applyServerErrors(formGroup, {
+        type: 'https://example.com/validation-error',
+        title: 'Your request parameters did not validate.',
+        'invalid-params': [{name: '/supplier/product', reason: 'must not be empty'}]
+    });
+    Assert.deepEqual(['must not be empty'], formGroup.get('supplier.product')?.getError('server'), 'RFC 7807 invalid params should be supported');
+
+    applyServerErrors(formGroup, {
+        status: 400,
+        errors: [
+            {objectName: 'invoiceRequest', field: 'lines[0].product', defaultMessage: 'must not be blank', code: 'NotBlank'},
+            {objectName: 'invoiceRequest', defaultMessage: 'totals do not match', code: 'Totals'},
+            {objectName: 'invoiceRequest', field: 'discount', defaultMessage: 'must be positive', code: 'Positive'}
+        ]
+    }, {errorKey: 'backend', unmatchedToGroup: true});
+    Assert.deepEqual(['must not be blank'], formGroup.get('lines.0.product')?.getError('backend'), 'Spring field errors should be supported');
+    Assert.deepEqual(['totals do not match', 'must be positive'], formGroup.getError('backend'), 'Global and unmatched errors should go to the group');
+
+    const problemGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+    const problem = {status: 422, title: 'Unprocessable', detail: 'The invoice is locked', traceId: '00-abc'};
+    Assert.deepEqual([], applyServerErrors(problemGroup, problem, {unmatchedToGroup: true}), 'Problem details members should not be taken as paths');
+    Assert.equal(null, problemGroup.errors, 'Problem details members should not go to the group');
+    applyServerErrors(problemGroup, problem, {detailToGroup: true});
+    Assert.deepEqual(['The invoice is locked'], problemGroup.getError('server'), 'Problem details detail should go to the group on demand');
+    Assert.deepEqual(['title'], applyServerErrors(problemGroup, {title: 'required'}), 'A single text member should still be taken as a path');
+});
+
+test('Form drafts are persisted and restored', async () => {
+    const storage = DraftStorages.memory();
+
+    class SupplierRequest {
+
+        @FormControlTarget()
+        name: string = '';
+    }
+
+    @PersistDraft('register-draft', {storage, debounceTime: 0})
+    class RegisterRequest {
+
+        @FormControlTarget()
+        username: string = '';
+
+        @FormControlTarget()
+        @ExcludeFromDraft()
+        password: string = '';
+
+        @FormControlTarget()
+        birthDate: Date = new Date(2000, 0, 1);
+
+        @NestedFormGroup(SupplierRequest)
+        company: SupplierRequest = new SupplierRequest();
+
+        @FormArrayTarget()
+        tags: string[] = [];
+    }
+
+    const formGroup = toFormGroup<RegisterRequest>(RegisterRequest);
+    formGroup.patchValue({username: 'john', password: 'secret', birthDate: new Date(1990, 4, 5), company: {name: 'ACME'}});
+    formGroup.controls.tags.addItem('vip');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    Assert.equal(undefined, JSON.parse(storage.getItem('register-draft')!).password, 'Excluded fields should not be saved');
+
+    const restored = toFormGroup<RegisterRequest>(RegisterRequest);
+    Assert.equal('john', restored.controls.username.value, 'Draft should be restored');
+    Assert.equal('', restored.controls.password.value, 'Excluded fields should not be restored');
+    Assert.deepEqual(new Date(1990, 4, 5), restored.controls.birthDate.value, 'Dates should be restored as dates');
+    Assert.equal('ACME', restored.controls.company.controls.name.value, 'Nested groups should be restored');
+    Assert.deepEqual(['vip'], restored.controls.tags.getRawValue(), 'Form arrays should be restored');
+
+    clearDraft(restored);
+    Assert.equal(null, storage.getItem('register-draft'), 'Cleared draft should be removed');
+
+    class LoginRequest {
+
+        @FormControlTarget()
+        username: string = '';
+    }
+
+    const loginForm = toFormGroup<LoginRequest>(LoginRequest);
+    const subscription = persistForm(loginForm, 'login-draft', {storage, debounceTime: 0});
+    loginForm.controls.username.setValue('jane');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    subscription.unsubscribe();
+
+    Assert.deepEqual({username: 'jane'}, JSON.parse(storage.getItem('login-draft')!), 'Form groups should be persisted on demand');
+
+    @PersistDraft('billing-draft', {storage, debounceTime: 0}, 'billing')
+    class AddressRequest {
+
+        @FormControlTarget([], ['billing', 'shipping'])
+        city: string = '';
+    }
+
+    const [billing, shipping] = toFormGroups<AddressRequest>(AddressRequest, ['billing', 'shipping']);
+    billing.controls.city.setValue('Sofia');
+    shipping.controls.city.setValue('Plovdiv');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    Assert.deepEqual({city: 'Sofia'}, JSON.parse(storage.getItem('billing-draft')!), 'Form groups of several form ids should be persisted');
+    Assert.equal('Sofia', toFormGroups<AddressRequest>(AddressRequest, ['billing'])[0].controls.city.value, 'Form groups of several form ids should be restored');
+    Assert.equal('', toFormGroups<AddressRequest>(AddressRequest, ['shipping'])[0].controls.city.value, 'Form groups without a draft should not be restored');
+
+    @PersistDraft('invoice-draft', {storage, debounceTime: 0})
+    class InvoiceRequest {
+
+        @FormControlTarget()
+        id: number | null = null;
+
+        @FormControlTarget()
+        num: string = '';
+    }
+
+    storage.setItem('invoice-draft', JSON.stringify({id: 1, num: 'draft-of-1'}));
+    const edited = toFormGroup<InvoiceRequest>(InvoiceRequest, null, {id: 2, num: 'server-2'});
+    edited.controls.num.setValue('edit-of-2');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    Assert.deepEqual({num: 'edit-of-2'}, getChangedValues(edited), 'Fixed key drafts should not be restored over a supplied DTO');
+    Assert.deepEqual({id: 1, num: 'draft-of-1'}, JSON.parse(storage.getItem('invoice-draft')!), 'Fixed key drafts should not be saved from a supplied DTO');
+    Assert.equal('draft-of-1', toFormGroup<InvoiceRequest>(InvoiceRequest).controls.num.value, 'Fixed key drafts should be restored without a DTO');
+
+    @PersistDraft((invoice: InvoiceRequest | null) => 'invoice-' + (invoice?.id ?? 'new'), {storage, debounceTime: 0})
+    class UpdateInvoiceRequest extends InvoiceRequest {
+    }
+
+    const first = toFormGroup<UpdateInvoiceRequest>(UpdateInvoiceRequest, null, {id: 1, num: 'server-1'});
+    first.controls.num.setValue('edit-of-1');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    Assert.deepEqual({id: 1, num: 'edit-of-1'}, JSON.parse(storage.getItem('invoice-1')!), 'Record drafts should be saved under their own key');
+    Assert.equal('edit-of-1', toFormGroup<UpdateInvoiceRequest>(UpdateInvoiceRequest, null, {id: 1, num: 'server-1'}).controls.num.value,
+        'Record drafts should be restored for the same record');
+    Assert.equal('server-2', toFormGroup<UpdateInvoiceRequest>(UpdateInvoiceRequest, null, {id: 2, num: 'server-2'}).controls.num.value,
+        'Record drafts should not be restored for other records');
+});
+
+test('Form history undoes and redoes changes', () => {
+
+    class SupplierRequest {
+
+        @FormControlTarget()
+        name: string = '';
+    }
+
+    class InvoiceRequest {
+
+        @FormControlTarget()
+        num: string = '001';
+
+        @NestedFormGroup(SupplierRequest)
+        supplier: SupplierRequest = new SupplierRequest();
+
+        @FormArrayTarget()
+        tags: string[] = [];
+    }
+
+    const formGroup = toFormGroup<InvoiceRequest>(InvoiceRequest);
+    const history = withHistory(formGroup, {limit: 2, groupTime: 0});
+    let canUndo = false;
+    history.canUndo$.subscribe(value => canUndo = value);
+    Assert.equal(false, canUndo, 'Nothing should be undoable initially');
+
+    formGroup.controls.num.setValue('002');
+    formGroup.controls.num.markAsDirty();
+    formGroup.controls.supplier.controls.name.setValue('ACME');
+    formGroup.controls.tags.addItem('vip');
+    Assert.equal(true, canUndo, 'Changes should be undoable');
+
+    history.undo();
+    Assert.deepEqual({num: '002', supplier: {name: 'ACME'}, tags: []}, formGroup.getRawValue(), 'Undo should restore the previous snapshot');
+    history.undo();
+    Assert.deepEqual({num: '002', supplier: {name: ''}, tags: []}, formGroup.getRawValue(), 'Undo should follow nested groups');
+    history.undo();
+    Assert.equal('002', formGroup.controls.num.value, 'History should be limited');
+    Assert.equal(false, canUndo, 'Nothing should be undoable beyond the limit');
+
+    history.redo();
+    history.redo();
+    Assert.deepEqual(['vip'], formGroup.controls.tags.getRawValue(), 'Redo should restore the undone snapshots');
+
+    const groupedForm = toFormGroup<InvoiceRequest>(InvoiceRequest);
+    const grouped = withHistory(groupedForm, {groupTime: 60000});
+    groupedForm.controls.num.setValue('0');
+    groupedForm.controls.num.setValue('00');
+    groupedForm.controls.num.setValue('002');
+    grouped.undo();
+    Assert.equal('001', groupedForm.controls.num.value, 'Rapid edits should be undone at once');
+    Assert.equal(true, groupedForm.pristine, 'Form group holding the initial values should be pristine');
+
+    grouped.redo();
+    Assert.equal(true, groupedForm.controls.num.dirty, 'Controls holding changed values should be dirty');
+
+    history.clear();
+    Assert.equal(false, canUndo, 'Clear should forget the snapshots');
+    history.destroy();
+});
+
+test('Generated form renders fields from the UI metadata', () => {
+
+    class SupplierRequest {
+
+        @Required()
+        @ErrorMessages({required: 'Supplier name is required'})
+        supplierName: string = '';
+    }
+
+    class InvoiceRequest {
+
+        @FormControlTarget()
+        @UiField({kind: 'textarea', hint: 'Shown on the invoice'})
+        notes: string = '';
+
+        @Required()
+        @UiField({label: 'Invoice number', placeholder: '0000000001', order: 1})
+        num: string = '';
+
+        @FormControlTarget()
+        @UiField({options: [{value: 'EUR', label: 'Euro'}, {value: 'BGN', label: 'Lev'}]})
+        currency: string = 'EUR';
+
+        @FormControlTarget()
+        paid: boolean = false;
+
+        @NestedFormGroup(SupplierRequest)
+        @UiField({label: 'Supplier'})
+        supplier: SupplierRequest = new SupplierRequest();
+
+        @FormArrayTarget()
+        tags: string[] = ['urgent'];
+    }
+
+    @Component({selector: 'app-select', standalone: true, template: ''})
+    class SelectComponent {
+    }
+
+    const injector = Injector.create({providers: [provideGeneratedFormInputs({select: SelectComponent})]});
+    const component = runInInjectionContext(injector, () => new GeneratedFormComponent());
+    component.type = InvoiceRequest;
+    component.ngOnChanges();
+
+    const fields = component.fields;
+    Assert.deepEqual(['num', 'notes', 'currency', 'paid', 'supplier', 'tags'], fields.map(field => field.path), 'Ordered fields should come first');
+    Assert.deepEqual(['Invoice number', 'Notes', 'Currency', 'Paid', 'Supplier', 'Tags'], fields.map(field => field.label), 'Labels should default to the field name');
+    Assert.deepEqual(['text', 'textarea', 'select', 'checkbox'], fields.slice(0, 4).map(field => field.kind), 'Input kinds should be inferred');
+    Assert.equal(SelectComponent, fields[2].component, 'Input components should be replaceable per kind');
+    Assert.equal(GeneratedInputComponent, fields[0].component, 'Default input component should be used for the other kinds');
+    Assert.equal(fields[0], fields[0].injector.get(GENERATED_FIELD), 'Input components should get their field injected');
+
+    Assert.equal('supplier.supplierName', fields[4].fields![0].path, 'Nested groups should be rendered as fieldsets');
+    Assert.deepEqual([], fields[4].fields![0].messages(), 'Messages should be hidden until the control is touched');
+    fields[4].fields![0].control.markAsTouched();
+    Assert.deepEqual(['Supplier name is required'], fields[4].fields![0].messages(), 'Messages of touched controls should be shown');
+
+    (component.formGroup!.get('tags') as ModelFormArray<string>).addItem('paid');
+    Assert.deepEqual(['Tags 1', 'Tags 2'], component.fields[5].fields!.map(field => field.label), 'Form array elements should follow the array');
+    Assert.equal(fields[5].fields![0], component.fields[5].fields![0], 'Existing fields should be kept when refreshing');
+
+    const paid = component.fields[5].fields![1];
+    paid.control.setErrors({required: true});
+    paid.control.markAsTouched();
+    (component.formGroup!.get('tags') as ModelFormArray<string>).removeAt(0);
+    Assert.equal(paid, component.fields[5].fields![0], 'Remaining fields should be kept when removing');
+    Assert.deepEqual(['Tags 1', 'tags[0]'], [paid.label, paid.path], 'Remaining fields should follow their new position');
+    Assert.equal(1, paid.messages().length, 'Messages should follow the new position');
+    component.ngOnDestroy();
+
+    const element = {value: ''};
+    const dateInjector = Injector.create({providers: [
+        {provide: ElementRef, useValue: new ElementRef(element)},
+        {provide: Renderer2, useValue: {setProperty: (el: any, name: string, value: any) => el[name] = value}}
+    ]});
+    const dateInput = runInInjectionContext(dateInjector, () => new GeneratedDateInputDirective());
+    const changes: any[] = [];
+    dateInput.registerOnChange(value => changes.push(value));
+
+    dateInput.writeValue(new Date(2024, 1, 3));
+    Assert.equal('2024-02-03', element.value, 'Dates should be shown as yyyy-MM-dd');
+    dateInput.onInput('2024-03-05');
+    dateInput.onInput('');
+    dateInput.writeValue(null);
+    dateInput.onInput('2024-03-06');
+    Assert.deepEqual([new Date(2024, 2, 5), null, new Date(2024, 2, 6)], changes, 'Date fields should get dates, also once cleared');
+
+    dateInput.writeValue('2024-01-01');
+    dateInput.onInput('2024-01-02');
+    Assert.equal('2024-01-02', changes[3], 'Text fields should get strings');
+});
+
+test('Form factory resolves validators through Angular DI', async () => {
+    const BLOCKED_WORDS = new InjectionToken<string[]>('BLOCKED_WORDS');
+
+    class UsernameTakenValidator {
+        private readonly taken = inject(BLOCKED_WORDS);
+
+        validate(ctrl: AbstractControl): Promise<ValidationErrors | null> {
+            return Promise.resolve(this.taken.includes(ctrl.value) ? {usernameTaken: true} : null);
+        }
+    }
+
+    const noBlockedWords = injectValidator(() => {
+        const blocked = inject(BLOCKED_WORDS);
+        return ctrl => blocked.includes(ctrl.value) ? {blocked: true} : null;
+    });
+
+    class RegisterRequest {
+        @FormControlTarget(noBlockedWords)
+        @FormControlAsyncValidators(injectAsyncValidator(UsernameTakenValidator))
+        username: string = '';
+
+        @FormArrayTarget({itemValidatorsOrOptions: noBlockedWords})
+        tags: string[] = ['admin'];
+    }
+
+    Assert.throws(() => toFormGroup(RegisterRequest), /needs Angular DI/, 'Injected validators should need an injector');
+
+    const injector = Injector.create({
+        providers: [
+            {provide: FormFactory, deps: []},
+            {provide: UsernameTakenValidator, deps: []},
+            {provide: BLOCKED_WORDS, useValue: ['admin']}
+        ]
+    });
+    const formGroup = runInInjectionContext(injector, () => toFormGroup<RegisterRequest>(RegisterRequest, null, {username: 'admin'}));
+    Assert.deepEqual({blocked: true}, formGroup.controls.username.errors, 'Validator factories should be resolved in an injection context');
+    Assert.deepEqual({blocked: true}, formGroup.controls.tags.at(0).errors, 'Item validators should be resolved as well');
+
+    const formFactory = injector.get(FormFactory);
+    const otherGroup = formFactory.toFormGroup<RegisterRequest>(RegisterRequest, null, {username: 'john'});
+    otherGroup.controls.username.setValue('admin');
+    Assert.deepEqual({blocked: true}, otherGroup.controls.username.errors, 'Form factory should resolve validators');
+    otherGroup.controls.username.setValue('root');
+    await new Promise(resolve => setTimeout(resolve));
+    Assert.equal(null, otherGroup.controls.username.errors, 'Validator classes should be resolved');
+
+    const failingInjector = Injector.create({
+        providers: [{
+            provide: FormFactory, useFactory: () => {
+                throw new Error('Form factory failed');
+            }, deps: []
+        }]
+    });
+    Assert.throws(() => runInInjectionContext(failingInjector, () => toFormGroup(RegisterRequest)), /Form factory failed/,
+        'Failures other than a missing injection context should not be hidden');
+
+    formFactory.override(noBlockedWords, Validators.maxLength(3));
+    const overridden = formFactory.toFormGroup<RegisterRequest>(RegisterRequest, null, {username: 'admin'});
+    Assert.ok(overridden.controls.username.hasError('maxlength'), 'Validators should be overridable');
+});
+
+test('Signal form follows and writes back to the form group', () => {
+    class LineRequest {
+        @Required()
+        name: string = '';
+    }
+
+    class OrderRequest {
+        @Required()
+        num: string = '';
+
+        @NestedFormGroup(LineRequest)
+        line: LineRequest = new LineRequest();
+
+        @FormArrayTarget()
+        tags: string[] = ['urgent'];
+    }
+
+    const injector = Injector.create({providers: []}) as EnvironmentInjector;
+    const form = toSignalForm<OrderRequest>(OrderRequest, null, null, injector);
+    Assert.equal(false, form.valid(), 'Signals should start from the form group state');
+    Assert.deepEqual({required: true}, form.fields.num.errors(), 'Fields should have their own signals');
+
+    form.formGroup.controls.num.setValue('1');
+    Assert.equal('1', form.value().num, 'Value should follow the form group');
+    Assert.equal(null, form.fields.num.errors(), 'Field errors should follow the form group');
+
+    form.fields.line.fields.name.set('Chair');
+    Assert.equal('Chair', form.formGroup.controls.line.controls.name.value, 'Nested fields should write back');
+    Assert.equal(true, form.valid(), 'Validity should follow writes');
+
+    const first = form.fields.tags.items()[0];
+    form.fields.tags.set(['urgent', 'paid']);
+    Assert.deepEqual(['urgent', 'paid'], form.fields.tags.items().map(item => item.value()), 'Form array elements should follow the array');
+    Assert.equal(first, form.fields.tags.items()[0], 'Signals of existing elements should be kept');
+
+    form.update(value => ({...value, num: '2'}));
+    Assert.equal('2', form.fields.num.value(), 'Updates should write back');
+    Assert.equal(false, form.dirty(), 'Programmatic writes should keep the form pristine');
+
+    injector.destroy();
+    form.formGroup.controls.num.setValue('3');
+    Assert.equal('2', form.fields.num.value(), 'Signals should stop with the destroy context');
+});
+
+test('Value transforms normalize control values', () => {
+    class AddressRequest {
+        @Trim()
+        @Lowercase()
+        city: string = '';
+    }
+
+    class ProfileRequest {
+        @Trim()
+        @EmptyAsNull()
+        nickname: string | null = null;
+
+        @ToNumber()
+        age: number | null = null;
+
+        @Trim('editForm')
+        @ValueTransform(value => value?.replace(/\s+/g, ' '), 'editForm')
+        fullName: string = '  John   Doe ';
+
+        @NestedFormGroup(AddressRequest)
+        address: AddressRequest = new AddressRequest();
+
+        @FormArrayTarget()
+        @Trim()
+        tags: string[] = [' vip '];
+    }
+
+    Assert.deepEqual([ValueTransforms.trim, ValueTransforms.emptyAsNull],
+        getFormMetadata(ProfileRequest)[DEFAULT_GROUP].controls['nickname'].valueTransforms,
+        'Transforms should be in the metadata in the order they are written');
+
+    const formGroup = toFormGroup<ProfileRequest>(ProfileRequest);
+    Assert.equal(undefined, formGroup.get('fullName'), 'Transforms should be scoped per form id');
+    Assert.deepEqual(['vip'], formGroup.controls.tags.value, 'Transforms should apply to form array elements');
+
+    formGroup.patchValue({nickname: '   ', age: '42' as unknown as number, address: {city: ' Sofia '}});
+    Assert.deepEqual({nickname: null, age: 42, address: {city: 'sofia'}, tags: ['vip']}, formGroup.value,
+        'Transforms should apply to values given to the controls, nested groups included');
+
+    formGroup.controls.age.setValue('abc' as unknown as number, {emitModelToViewChange: false});
+    Assert.equal('abc', formGroup.controls.age.value, 'Non numeric values should be left for the validators');
+
+    const editGroup = toFormGroup<ProfileRequest>(ProfileRequest, 'editForm');
+    Assert.equal('John Doe', editGroup.controls.fullName.value, 'Custom transforms should compose with the built-in ones');
+
+    Assert.throws(() => {
+        class InvalidRequest {
+            @NestedFormGroup(AddressRequest)
+            @Trim()
+            address: AddressRequest = new AddressRequest();
+        }
+    }, /value transforms cannot be applied/, 'Transforms on nested form groups should be rejected');
+});
+
+test('Nested form groups resolve forward references and recursive types', () => {
+    class CategoryRequest {
+        @Required()
+        name: string = '';
+
+        @NestedFormGroup(() => CategoryRequest, undefined, undefined, 2)
+        parent: CategoryRequest | null = null;
+
+        @FormArrayTarget({sourceType: () => CategoryRequest})
+        children: CategoryRequest[] = [];
+
+        @NestedFormGroup(() => CategoryOwnerRequest)
+        owner: CategoryOwnerRequest | null = null;
+    }
+
+    class CategoryOwnerRequest {
+        @FormControlTarget()
+        email: string = '';
+    }
+
+    const formGroup = toFormGroup<CategoryRequest>(CategoryRequest);
+    Assert.ok(formGroup.controls.owner instanceof ModelFormGroup, 'Types declared later should be resolved when building');
+    Assert.ok(formGroup.controls.parent.controls.parent instanceof ModelFormGroup, 'Recursive types should be nested up to the max depth');
+    Assert.ok(!(formGroup.controls.parent.controls.parent.controls.parent instanceof FormGroup), 'Deeper fields should be plain controls');
+
+    const child = formGroup.controls.children.addItem({name: 'Chairs'} as CategoryRequest);
+    Assert.equal('Chairs', child.controls.name.value, 'Form array element thunks should be resolved');
+    Assert.equal(CategoryRequest, getFormMetadata(CategoryRequest)[DEFAULT_GROUP].controls['parent'].nested!.sourceType, 'Metadata should have the resolved type');
+
+    class NodeRequest {
+        @NestedFormGroup(() => NodeRequest)
+        next: NodeRequest | null = null;
+    }
+
+    Assert.throws(() => toFormGroup(NodeRequest), /Infinitely recursive form group NodeRequest -> NodeRequest/, 'Endless recursion should be reported');
 });